@@ -0,0 +1,88 @@
+import { bench, describe } from 'vitest';
+import { tracingChannel as nativeTracingChannel } from 'node:diagnostics_channel';
+import { context } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  NoopSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { tracingChannel } from '../src';
+
+// Measures the overhead per traced call in each mode
+
+context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+
+const tracer = new BasicTracerProvider({
+  spanProcessors: [new NoopSpanProcessor()],
+}).getTracer('bench');
+
+const work = () => 42;
+const data = () => ({ table: 'users' });
+
+const untraced = nativeTracingChannel('bench:untraced');
+
+const traced = tracingChannel(
+  'bench:traced',
+  () => tracer.startSpan('operation'),
+  { autoEnd: true },
+);
+
+const skippedByShouldTrace = tracingChannel(
+  'bench:should-trace',
+  () => tracer.startSpan('operation'),
+  { autoEnd: true, shouldTrace: () => false },
+);
+
+const skippedBySampler = tracingChannel(
+  'bench:sampler',
+  () => tracer.startSpan('operation'),
+  { autoEnd: true, sampler: () => false },
+);
+
+const skippedWithoutSubscribers = tracingChannel(
+  'bench:require-subscribers',
+  () => tracer.startSpan('operation'),
+  { requireSubscribers: true },
+);
+
+describe('traceSync', () => {
+  bench('native channel without subscribers', () => {
+    untraced.traceSync(work, data());
+  });
+
+  bench('span created and ended', () => {
+    traced.traceSync(work, data());
+  });
+
+  bench('skipped by shouldTrace', () => {
+    skippedByShouldTrace.traceSync(work, data());
+  });
+
+  bench('skipped by sampler', () => {
+    skippedBySampler.traceSync(work, data());
+  });
+
+  bench('skipped without subscribers', () => {
+    skippedWithoutSubscribers.traceSync(work, data());
+  });
+});
+
+describe('tracePromise', () => {
+  const asyncWork = async () => 42;
+
+  bench('native channel without subscribers', async () => {
+    await untraced.tracePromise(asyncWork, data());
+  });
+
+  bench('span created and ended', async () => {
+    await traced.tracePromise(asyncWork, data());
+  });
+
+  bench('skipped by shouldTrace', async () => {
+    await skippedByShouldTrace.tracePromise(asyncWork, data());
+  });
+
+  bench('skipped without subscribers', async () => {
+    await skippedWithoutSubscribers.tracePromise(asyncWork, data());
+  });
+});
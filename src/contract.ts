@@ -0,0 +1,153 @@
+import {
+  tracingChannel as nativeTracingChannel,
+  type TracingChannel,
+} from 'node:diagnostics_channel';
+
+/**
+ * Channel data of an operation published through a contract, with the fields set by `TracingChannel`
+ */
+export type ChannelContractData<
+  TData extends object,
+  TResult = unknown,
+> = TData & {
+  result?: TResult;
+  error?: unknown;
+};
+
+/**
+ * A typed tracing channel published by a library, see `defineTracingChannel`
+ */
+export interface ChannelContract<TData extends object, TResult = unknown> {
+  /**
+   * Name of the tracing channel, e.g. `mylib:query`
+   */
+  readonly name: string;
+  /**
+   * The native tracing channel the operations are published through
+   */
+  readonly channel: TracingChannel<
+    ChannelContractData<TData, TResult>,
+    ChannelContractData<TData, TResult>
+  >;
+  /**
+   * Whether anything is bound to or subscribes to the channel
+   */
+  readonly hasSubscribers: boolean;
+  /**
+   * Runs a synchronous operation, see `TracingChannel.traceSync`
+   */
+  traceSync<TArgs extends any[], R extends TResult>(
+    fn: (...args: TArgs) => R,
+    data: TData,
+    thisArg?: unknown,
+    ...args: TArgs
+  ): R;
+  /**
+   * Runs an asynchronous operation, see `TracingChannel.tracePromise`
+   */
+  tracePromise<TArgs extends any[], R extends TResult>(
+    fn: (...args: TArgs) => Promise<R>,
+    data: TData,
+    thisArg?: unknown,
+    ...args: TArgs
+  ): Promise<R>;
+  /**
+   * Runs an operation taking a callback, see `TracingChannel.traceCallback`
+   */
+  traceCallback<TArgs extends any[]>(
+    fn: (...args: TArgs) => void,
+    position: number | undefined,
+    data: TData,
+    thisArg?: unknown,
+    ...args: TArgs
+  ): void;
+}
+
+// Global symbol, so contracts are recognized across copies of this module, e.g. its CJS and ESM builds
+const CONTRACT = Symbol.for('otel-tracing-channel.contract');
+
+/**
+ * Defines a typed tracing channel for library code to publish its operations through.
+ * Doesn't depend on `@opentelemetry/api`, and runs operations without publishing anything
+ * while nothing is bound to or subscribes to the channel.
+ *
+ * Consumers pass the contract to `tracingChannel()`, typing the channel data with `data.result` and `data.error`.
+ *
+ * @param name - Name of the tracing channel, prefixed with the library name by convention, e.g. `mylib:query`
+ *
+ * @example
+ * ```ts
+ * // In the library
+ * import { defineTracingChannel } from 'otel-tracing-channel/contract';
+ *
+ * export const queryChannel = defineTracingChannel<{ sql: string }, Row[]>('mylib:query');
+ *
+ * export function query(sql: string) {
+ *   return queryChannel.tracePromise(() => run(sql), { sql });
+ * }
+ *
+ * // In the application
+ * tracingChannel(queryChannel, (data) => tracer.startSpan(data.sql), { autoEnd: true });
+ * ```
+ */
+export function defineTracingChannel<TData extends object, TResult = unknown>(
+  name: string,
+): ChannelContract<TData, TResult> {
+  const channel = nativeTracingChannel<
+    ChannelContractData<TData, TResult>,
+    ChannelContractData<TData, TResult>
+  >(name);
+
+  const contract: ChannelContract<TData, TResult> = {
+    name,
+    channel,
+
+    get hasSubscribers() {
+      return (
+        channel.start.hasSubscribers ||
+        channel.end.hasSubscribers ||
+        channel.asyncStart.hasSubscribers ||
+        channel.asyncEnd.hasSubscribers ||
+        channel.error.hasSubscribers
+      );
+    },
+
+    traceSync(fn, data, thisArg, ...args) {
+      if (!contract.hasSubscribers) {
+        return fn.apply(thisArg, args);
+      }
+
+      return channel.traceSync(fn, data, thisArg, ...args);
+    },
+
+    tracePromise(fn, data, thisArg, ...args) {
+      if (!contract.hasSubscribers) {
+        return fn.apply(thisArg, args);
+      }
+
+      return channel.tracePromise(fn, data, thisArg, ...args);
+    },
+
+    traceCallback(fn, position, data, thisArg, ...args) {
+      if (!contract.hasSubscribers) {
+        fn.apply(thisArg, args);
+        return;
+      }
+
+      channel.traceCallback(fn, position, data, thisArg, ...args);
+    },
+  };
+
+  Object.defineProperty(contract, CONTRACT, { value: true });
+
+  return contract;
+}
+
+/**
+ * Whether a value was returned by `defineTracingChannel`
+ */
+export function isChannelContract(
+  value: unknown,
+): value is ChannelContract<any, any> {
+  return typeof value === 'object' && value !== null && CONTRACT in value;
+}
@@ -1,2 +1,86 @@
-export { tracingChannel, type TracingChannelTransform } from './tracingChannel';
+export {
+  tracingChannel,
+  getContextStorageStrategy,
+  type BoundTracingChannel,
+  type ChannelSampler,
+  type TracingChannelHandle,
+  type TracingChannelOptions,
+  type TracingChannelTransform,
+  type TracingChannelTransformResult,
+} from './tracingChannel';
+export {
+  createSpanTransform,
+  type SpanAttributeMap,
+  type SpanDefinition,
+} from './spanDefinition';
+export {
+  defaultClassifyError,
+  recordSpanError,
+  type ErrorClassification,
+  type ErrorClassifier,
+  type RecordSpanErrorOptions,
+  type TracingChannelTransformEnd,
+} from './lifecycle';
+export { type ChannelMetricsOptions } from './metrics';
+export { addChannelEvent, type ChannelPhaseMode } from './phases';
+export {
+  getOpenSpans,
+  type OpenSpanInfo,
+  type WatchdogOptions,
+} from './watchdog';
+export { traced, wrap, type TraceDataMapper, type WrapOptions } from './wrap';
+export {
+  defineTracingChannel,
+  type ChannelContract,
+  type ChannelContractData,
+} from './contract';
+export { captureLink, type ChannelLink } from './links';
+export { setRedaction, type RedactionOptions } from './redaction';
+export type { ChannelStore } from './stores';
+export {
+  extractContext,
+  injectContext,
+  type CarrierOptions,
+  type ContextCarrier,
+} from './propagation';
+export {
+  traceAsyncIterable,
+  traceStream,
+  type IterationTraceOptions,
+} from './iterable';
+export {
+  listChannels,
+  type ChannelConflictPolicy,
+  type ChannelInfo,
+} from './registry';
+export {
+  resolveContextStorage,
+  type ContextStorageFallback,
+  type ContextStorageOptions,
+  type ContextStorageStrategy,
+  type ResolvedContextStorage,
+} from './storage';
 export { setDebugFlag } from './utils';
+export {
+  setDebugChannels,
+  setLogLevel,
+  setLogger,
+  type LogFields,
+  type LogLevel,
+  type LogRecord,
+  type LogSink,
+} from './logger';
+export {
+  instrumentFastify,
+  instrumentHttpClient,
+  instrumentNetClient,
+  instrumentUndici,
+  type FastifyHandlerData,
+  type FastifyInstrumentationOptions,
+  type HttpClientInstrumentationOptions,
+  type NetClientInstrumentationOptions,
+  type PresetOptions,
+  type UndiciInstrumentationOptions,
+  type UndiciRequest,
+  type Uninstrument,
+} from './presets';
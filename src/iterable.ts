@@ -0,0 +1,265 @@
+import type { TracingChannel } from 'node:diagnostics_channel';
+import { finished, type Readable } from 'node:stream';
+import { context, type Context, type Span } from '@opentelemetry/api';
+
+/**
+ * Options for `traceAsyncIterable` and `traceStream`
+ */
+export interface IterationTraceOptions {
+  /**
+   * Span attribute set to the number of consumed items when the iteration finishes
+   */
+  itemCountAttribute?: string;
+  /**
+   * Span attribute set to the number of consumed bytes when the iteration finishes,
+   * counting strings, `Buffer`s, typed arrays and `ArrayBuffer`s
+   */
+  byteCountAttribute?: string;
+}
+
+type ChannelData = { span?: Span; error?: unknown };
+
+/**
+ * Tracks the items of an iteration, and publishes the terminal events of the operation once
+ */
+interface IterationTracker {
+  count(item: unknown): void;
+  finish(options?: { error?: unknown; cancelled?: boolean }): void;
+  // Marks the iteration finished without publishing events
+  abort(): void;
+  readonly finished: boolean;
+}
+
+/**
+ * Traces an async iteration through the channel, from the first `next()` until the iteration completes,
+ * throws or is stopped early with `return()`, e.g. by `break` in a `for await` loop.
+ *
+ * The factory and every `next()` run with the operation context active, so spans started while
+ * producing items are parented to the operation span. Early stops add a `cancelled` span event.
+ *
+ * Events are published like `tracePromise` does, `start` and `end` when iteration begins,
+ * `asyncStart` and `asyncEnd` when it finishes, so `autoEnd` ends the span at the right time.
+ *
+ * @param channel - The channel to trace the iteration through, e.g. returned by `tracingChannel`
+ * @param factory - Creates the iterable, called when iteration begins
+ * @param data - The channel data
+ *
+ * @example
+ * ```ts
+ * const rows = traceAsyncIterable(channel, () => cursor.rows(), { table: 'users' });
+ *
+ * for await (const row of rows) {
+ *   // ...
+ * }
+ * ```
+ */
+export function traceAsyncIterable<T, TData extends object>(
+  channel: TracingChannel<any, TData>,
+  factory: () => AsyncIterable<T>,
+  data: TData,
+  options: IterationTraceOptions = {},
+): AsyncIterableIterator<T> {
+  const tracker = createIterationTracker(channel, data, options);
+  let iterator: AsyncIterator<T> | undefined;
+  let operationContext: Context = context.active();
+
+  function begin(): AsyncIterator<T> {
+    iterator ??= startOperation(channel, data, tracker, () => {
+      operationContext = context.active();
+
+      return factory()[Symbol.asyncIterator]();
+    });
+
+    return iterator;
+  }
+
+  return {
+    async next() {
+      if (tracker.finished) {
+        return { done: true, value: undefined };
+      }
+
+      const current = begin();
+      try {
+        const result = await context.with(operationContext, () =>
+          current.next(),
+        );
+        if (result.done) {
+          tracker.finish();
+        } else {
+          tracker.count(result.value);
+        }
+
+        return result;
+      } catch (error) {
+        tracker.finish({ error });
+        throw error;
+      }
+    },
+
+    async return(value?: any) {
+      if (iterator && !tracker.finished) {
+        const current = iterator;
+        try {
+          await context.with(operationContext, () => current.return?.(value));
+        } catch (error) {
+          tracker.finish({ error });
+          throw error;
+        }
+
+        tracker.finish({ cancelled: true });
+      } else {
+        // Stopped before it began, nothing was traced
+        tracker.abort();
+      }
+
+      return { done: true, value };
+    },
+
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * Traces a `Readable` stream through the channel, from now until it ends, errors or is destroyed early.
+ * Reads run with the operation context active, so spans started by the stream implementation
+ * while producing data are parented to the operation span. Early destruction adds a `cancelled` span event.
+ *
+ * Events are published like `traceAsyncIterable` does.
+ *
+ * @param channel - The channel to trace the stream through, e.g. returned by `tracingChannel`
+ * @param stream - The stream to trace, returned as is
+ * @param data - The channel data
+ */
+export function traceStream<TStream extends Readable, TData extends object>(
+  channel: TracingChannel<any, TData>,
+  stream: TStream,
+  data: TData,
+  options: IterationTraceOptions = {},
+): TStream {
+  const tracker = createIterationTracker(channel, data, options);
+
+  startOperation(channel, data, tracker, () => {
+    const operationContext = context.active();
+    const read = stream._read.bind(stream);
+    const emit = stream.emit.bind(stream);
+
+    stream._read = (size) => context.with(operationContext, () => read(size));
+    stream.emit = (event: string | symbol, ...args: any[]) => {
+      if (event === 'data') {
+        tracker.count(args[0]);
+      }
+
+      return emit(event, ...args);
+    };
+  });
+
+  finished(stream, { writable: false }, (error) => {
+    if (isPrematureClose(error)) {
+      tracker.finish({ cancelled: true });
+    } else {
+      tracker.finish({ error });
+    }
+  });
+
+  return stream;
+}
+
+/**
+ * Runs `fn` with the operation started, publishing `start` and `end` like `tracePromise` does
+ */
+function startOperation<TData extends object, R>(
+  channel: TracingChannel<any, TData>,
+  data: TData & ChannelData,
+  tracker: IterationTracker,
+  fn: () => R,
+): R {
+  return channel.start.runStores(data, () => {
+    try {
+      return fn();
+    } catch (error) {
+      data.error = error;
+      channel.error.publish(data);
+      // The operation is finished by `end`
+      tracker.abort();
+      throw error;
+    } finally {
+      channel.end.publish(data);
+    }
+  });
+}
+
+function createIterationTracker<TData extends object>(
+  channel: TracingChannel<any, TData>,
+  data: TData & ChannelData,
+  options: IterationTraceOptions,
+): IterationTracker {
+  let itemCount = 0;
+  let byteCount = 0;
+  let done = false;
+
+  return {
+    get finished() {
+      return done;
+    },
+
+    count(item) {
+      if (done) {
+        return;
+      }
+
+      itemCount++;
+      byteCount += getByteLength(item);
+    },
+
+    finish({ error, cancelled } = {}) {
+      if (done) {
+        return;
+      }
+
+      done = true;
+      if (options.itemCountAttribute) {
+        data.span?.setAttribute(options.itemCountAttribute, itemCount);
+      }
+      if (options.byteCountAttribute) {
+        data.span?.setAttribute(options.byteCountAttribute, byteCount);
+      }
+      if (cancelled) {
+        data.span?.addEvent('cancelled');
+      }
+
+      if (error !== undefined) {
+        data.error = error;
+        channel.error.publish(data);
+      }
+
+      channel.asyncStart.publish(data);
+      channel.asyncEnd.publish(data);
+    },
+
+    abort() {
+      done = true;
+    },
+  };
+}
+
+function getByteLength(item: unknown): number {
+  if (typeof item === 'string') {
+    return Buffer.byteLength(item);
+  }
+
+  if (ArrayBuffer.isView(item) || item instanceof ArrayBuffer) {
+    return item.byteLength;
+  }
+
+  return 0;
+}
+
+function isPrematureClose(error: unknown): boolean {
+  return (
+    (error as { code?: unknown } | undefined)?.code ===
+    'ERR_STREAM_PREMATURE_CLOSE'
+  );
+}
@@ -0,0 +1,376 @@
+import type { TracingChannelSubscribers } from 'node:diagnostics_channel';
+import {
+  SpanStatusCode,
+  type Attributes,
+  type Exception,
+  type Span,
+} from '@opentelemetry/api';
+import { getSpanFields, log } from './logger';
+import { callHook } from './utils';
+
+type ChannelData = { span?: Span; error?: unknown; result?: unknown };
+
+/**
+ * Handlers invoked by the subscribers built with `createTerminalSubscribers`
+ */
+export interface TerminalHandlers<TData extends object> {
+  /**
+   * Called for every `start` event, once the span is created
+   */
+  start?: (data: TData & ChannelData) => void;
+  /**
+   * Called for every `error` event, before the operation is finished
+   */
+  error?: (data: TData & ChannelData) => void;
+  /**
+   * Called exactly once per operation, when it is finished
+   *
+   * @param failed - Whether the operation failed, `data.error` may be left over from an earlier operation otherwise
+   */
+  terminal: (data: TData & ChannelData, failed: boolean) => void;
+}
+
+// Data of operations started with `result` already set, e.g. reused data, and whether the operation set it since
+const resultWrites = new WeakMap<object, { written: boolean }>();
+
+/**
+ * Watches the writes of `result` when the data already has one, so the `end` event of
+ * async operations isn't mistaken for the one of sync operations
+ */
+function watchResult(data: object): void {
+  const watched = resultWrites.get(data);
+  if (watched) {
+    // Watched by the subscribers of another binding, or by an operation that never finished
+    watched.written = false;
+    return;
+  }
+
+  const descriptor = Object.getOwnPropertyDescriptor(data, 'result');
+  if (!descriptor || !('value' in descriptor) || !descriptor.configurable) {
+    return;
+  }
+
+  const state = { written: false };
+  let value: unknown = descriptor.value;
+  Object.defineProperty(data, 'result', {
+    configurable: true,
+    enumerable: descriptor.enumerable,
+    get: () => value,
+    set(next: unknown) {
+      value = next;
+      state.written = true;
+    },
+  });
+  resultWrites.set(data, state);
+}
+
+function unwatchResult(data: object): void {
+  if (!resultWrites.delete(data)) {
+    return;
+  }
+
+  const value: unknown = Reflect.get(data, 'result');
+  Object.defineProperty(data, 'result', {
+    configurable: true,
+    enumerable: true,
+    writable: true,
+    value,
+  });
+}
+
+function hasResult(data: object): boolean {
+  return resultWrites.get(data)?.written ?? Object.hasOwn(data, 'result');
+}
+
+/**
+ * Builds channel subscribers that call `handlers.terminal` exactly once per operation,
+ * at the event that actually finishes it:
+ *
+ * - `traceSync`: `end`
+ * - `tracePromise`: `asyncEnd`, or `end` if the function threw synchronously
+ * - `traceCallback`: `asyncEnd`, or `end` if the function threw synchronously
+ *
+ * `traceSync` is told apart by `data.result`, which Node.js only sets before `end` for sync operations,
+ * and sync throws by the `error` event published before `end`. Operations are tracked from their `start`
+ * event, so the same data may be passed to several operations.
+ */
+export function createTerminalSubscribers<TData extends object>(
+  handlers: TerminalHandlers<TData>,
+): TracingChannelSubscribers<TData & ChannelData> {
+  // Operations running or finished, by data, cleared when the data is passed to a new operation
+  const finished = new WeakSet<object>();
+  const failed = new WeakSet<object>();
+
+  function finish(data: TData & ChannelData): void {
+    if (finished.has(data)) {
+      return;
+    }
+
+    finished.add(data);
+    unwatchResult(data);
+    handlers.terminal(data, failed.has(data));
+  }
+
+  return {
+    start(data) {
+      finished.delete(data);
+      failed.delete(data);
+      watchResult(data);
+      handlers.start?.(data);
+    },
+    end(data) {
+      if (failed.has(data) || hasResult(data)) {
+        finish(data);
+      }
+    },
+    asyncEnd(data) {
+      finish(data);
+    },
+    error(data) {
+      failed.add(data);
+      handlers.error?.(data);
+    },
+  } as TracingChannelSubscribers<TData & ChannelData>;
+}
+
+/**
+ * How an error is recorded on a span
+ */
+export interface ErrorClassification {
+  /**
+   * Status code set on the span, defaults to `ERROR`. `UNSET` leaves the status untouched.
+   */
+  status?: SpanStatusCode;
+  /**
+   * Status description, defaults to the error message. Only used with the `ERROR` status.
+   */
+  message?: string;
+  /**
+   * Whether to record the error as an exception event, defaults to `true`
+   */
+  recordException?: boolean;
+  /**
+   * Attributes set on the span
+   */
+  attributes?: Attributes;
+}
+
+/**
+ * Decides how an error is recorded on the span of an operation,
+ * returning `undefined` falls back to `defaultClassifyError`
+ */
+export type ErrorClassifier<TData = any> = (
+  error: unknown,
+  data: TData,
+) => ErrorClassification | undefined;
+
+/**
+ * Default error classification:
+ *
+ * - `AbortError`s, including `DOMException`s, are cancellations and don't fail the span
+ * - other errors set the `ERROR` status and the `error.type` attribute, from `error.code`
+ *   or the error name (`DOMException` names like `TimeoutError` included)
+ */
+export function defaultClassifyError(error: unknown): ErrorClassification {
+  const { name, code } = (error ?? {}) as { name?: unknown; code?: unknown };
+  if (name === 'AbortError' || code === 'ABORT_ERR') {
+    return { status: SpanStatusCode.UNSET, recordException: false };
+  }
+
+  return {
+    status: SpanStatusCode.ERROR,
+    attributes: {
+      'error.type':
+        typeof code === 'string'
+          ? code
+          : typeof name === 'string'
+            ? name
+            : '_OTHER',
+    },
+  };
+}
+
+/**
+ * Options for `recordSpanError`
+ */
+export interface RecordSpanErrorOptions<TData> {
+  /**
+   * The channel data passed to `classifyError`
+   */
+  data?: TData;
+  /**
+   * Decides how the error is recorded, defaults to `defaultClassifyError`
+   */
+  classifyError?: ErrorClassifier<TData>;
+  /**
+   * The channel name, used when logging errors thrown by `classifyError`
+   */
+  channel?: string;
+}
+
+/**
+ * Records an error on a span as classified by `classifyError`, e.g. from manual `error` handlers
+ *
+ * @example
+ * ```ts
+ * channel.subscribe({
+ *   error(data) {
+ *     if (data.span) {
+ *       recordSpanError(data.span, data.error, { data, classifyError });
+ *     }
+ *   },
+ * });
+ * ```
+ */
+export function recordSpanError<TData>(
+  span: Span,
+  error: unknown,
+  options: RecordSpanErrorOptions<TData> = {},
+): void {
+  const { classifyError } = options;
+  const classification =
+    (classifyError &&
+      callHook(
+        options.channel,
+        'classifyError',
+        undefined,
+        () => classifyError(error, options.data as TData),
+        'error',
+      )) ??
+    defaultClassifyError(error);
+  const { status = SpanStatusCode.ERROR } = classification;
+
+  if (classification.recordException ?? true) {
+    span.recordException(toException(error));
+  }
+
+  if (classification.attributes) {
+    span.setAttributes(classification.attributes);
+  }
+
+  if (status === SpanStatusCode.ERROR) {
+    span.setStatus({
+      code: status,
+      message: classification.message ?? getErrorMessage(error),
+    });
+  } else if (status === SpanStatusCode.OK) {
+    span.setStatus({ code: status });
+  }
+}
+
+/**
+ * Options for the built-in span lifecycle subscribers
+ */
+export interface SpanLifecycleOptions<TData> {
+  /**
+   * Maps the operation result to attributes set on the span right before it is ended.
+   * Not called for failed operations.
+   */
+  resultAttributes?: (result: unknown, data: TData) => Attributes | undefined;
+  /**
+   * Decides how errors are recorded on the span, defaults to `defaultClassifyError`
+   */
+  classifyError?: ErrorClassifier<TData>;
+}
+
+/**
+ * Builds subscribers that record errors on the operation span and end it once the operation finishes
+ *
+ * @param getSpan - Gets the span of an operation, `data.span` by default
+ * @param channel - The channel name, used when logging errors thrown by `resultAttributes` or `classifyError`
+ */
+export function createSpanLifecycleSubscribers<TData extends object>(
+  options: SpanLifecycleOptions<TData> = {},
+  getSpan: (data: TData & ChannelData) => Span | undefined = (data) =>
+    data.span,
+  channel?: string,
+): TracingChannelSubscribers<TData & ChannelData> {
+  return createTerminalSubscribers<TData>({
+    error(data) {
+      const span = getSpan(data);
+      if (!span) {
+        return;
+      }
+
+      recordSpanError(span, data.error, {
+        data,
+        classifyError: options.classifyError,
+        channel,
+      });
+    },
+    terminal(data, failed) {
+      const span = getSpan(data);
+      if (!span) {
+        return;
+      }
+
+      if (options.resultAttributes && !failed) {
+        const { resultAttributes } = options;
+        const attributes = callHook(
+          channel,
+          'resultAttributes',
+          undefined,
+          () => resultAttributes(data.result, data),
+          'end',
+        );
+        if (attributes) {
+          span.setAttributes(attributes);
+        }
+      }
+
+      span.end();
+    },
+  });
+}
+
+/**
+ * Enriches the span of an operation once it finishes, given the channel data with `result` or `error` set
+ */
+export type TracingChannelTransformEnd<TData = any> = (
+  data: TData & { result?: unknown; error?: unknown },
+  span: Span,
+) => void;
+
+/**
+ * Builds subscribers calling `transformEnd` exactly once per operation, when it finishes.
+ * Errors thrown by `transformEnd` are logged, never reaching the traced operation.
+ *
+ * @param getSpan - Gets the span of an operation
+ */
+export function createTransformEndSubscribers<TData extends object>(
+  channel: string,
+  transformEnd: TracingChannelTransformEnd<TData>,
+  getSpan: (data: TData & ChannelData) => Span | undefined,
+): TracingChannelSubscribers<TData & ChannelData> {
+  return createTerminalSubscribers<TData>({
+    terminal(data) {
+      const span = getSpan(data);
+      if (!span) {
+        return;
+      }
+
+      try {
+        transformEnd(data, span);
+      } catch (error) {
+        log('error', '"transformEnd" threw an error', {
+          channel,
+          event: 'transformEnd',
+          ...getSpanFields(span),
+          error,
+        });
+      }
+    },
+  });
+}
+
+function toException(error: unknown): Exception {
+  if (error instanceof Error || typeof error === 'string') {
+    return error;
+  }
+
+  return String(error);
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
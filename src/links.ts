@@ -0,0 +1,110 @@
+import {
+  context,
+  isSpanContextValid,
+  trace,
+  type Attributes,
+  type Context,
+  type Link,
+  type Span,
+  type SpanContext,
+} from '@opentelemetry/api';
+import { getSpanFields, log } from './logger';
+import { isContext } from './utils';
+
+/**
+ * An operation the span of a channel operation is linked to: a link, a span context,
+ * or a context whose span is linked, e.g. returned by `extractContext`
+ */
+export type ChannelLink = Link | SpanContext | Context | undefined;
+
+/**
+ * Captures a link to the active span, e.g. when an item is queued, so the span of the batch
+ * processing it can link back to the trace of every caller with the `links` option of `tracingChannel`
+ *
+ * @param attributes - Attributes of the link
+ * @param ctx - The context whose span is linked, the active one by default
+ * @returns The link, or `undefined` if there is no valid span to link to
+ *
+ * @example
+ * ```ts
+ * queue.push({ key, link: captureLink() });
+ * ```
+ */
+export function captureLink(
+  attributes?: Attributes,
+  ctx: Context = context.active(),
+): Link | undefined {
+  const spanContext = trace.getSpanContext(ctx);
+  if (!spanContext || !isSpanContextValid(spanContext)) {
+    return undefined;
+  }
+
+  return attributes
+    ? { context: spanContext, attributes }
+    : { context: spanContext };
+}
+
+/**
+ * Turns the values returned by the `links` option into valid links, once per span
+ */
+export function resolveLinks(
+  values: Iterable<ChannelLink> | undefined,
+): Link[] {
+  const links = new Map<string, Link>();
+
+  for (const value of values ?? []) {
+    const link = toLink(value);
+    if (link && isSpanContextValid(link.context)) {
+      const key = `${link.context.traceId}-${link.context.spanId}`;
+      if (!links.has(key)) {
+        links.set(key, link);
+      }
+    }
+  }
+
+  return [...links.values()];
+}
+
+/**
+ * Adds links to a span already started, for spans not built from a span definition
+ */
+export function addSpanLinks(span: Span, links: Link[], channel: string): void {
+  // `addLinks` was added to the `Span` interface after spans of other libraries were written
+  if (typeof span.addLinks !== 'function') {
+    log('warn', "Span doesn't support addLinks, its links are dropped", {
+      channel,
+      event: 'start',
+      ...getSpanFields(span),
+    });
+    return;
+  }
+
+  try {
+    span.addLinks(links);
+  } catch (error) {
+    log('error', 'Adding links to the span failed', {
+      channel,
+      event: 'start',
+      ...getSpanFields(span),
+      error,
+    });
+  }
+}
+
+function toLink(value: ChannelLink): Link | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (isContext(value)) {
+    const spanContext = trace.getSpanContext(value);
+
+    return spanContext && { context: spanContext };
+  }
+
+  if ('context' in value) {
+    return value;
+  }
+
+  return { context: value };
+}
@@ -0,0 +1,163 @@
+import type { Span } from '@opentelemetry/api';
+
+/**
+ * Severity of a log record, from the most to the least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to log records
+ */
+export interface LogFields {
+  /**
+   * Name of the channel the record is about
+   */
+  channel?: string;
+  traceId?: string;
+  spanId?: string;
+  /**
+   * What the record is about, e.g. a channel event like `start` or a step like `bind`
+   */
+  event?: string;
+  error?: unknown;
+}
+
+/**
+ * A log record passed to the sink set with `setLogger`
+ */
+export interface LogRecord extends LogFields {
+  level: LogLevel;
+  message: string;
+  /**
+   * Extra values passed to `debugLog`
+   */
+  args: unknown[];
+}
+
+/**
+ * Receives the log records that pass the level and channel filters
+ */
+export type LogSink = (record: LogRecord) => void;
+
+const PREFIX = '[otel-tracing-channel]';
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * Default sink, writes to the console with the `[otel-tracing-channel]` prefix
+ */
+const consoleSink: LogSink = ({ level, message, args, ...fields }) => {
+  const structured = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined),
+  );
+  const values = Object.keys(structured).length > 0 ? [structured] : [];
+
+  /* eslint-disable no-console */
+  const write =
+    level === 'error'
+      ? console.error
+      : level === 'warn'
+        ? console.warn
+        : console.log;
+  /* eslint-enable no-console */
+  write(PREFIX, message, ...args, ...values);
+};
+
+let sink: LogSink = consoleSink;
+let threshold: LogLevel | 'silent' = 'warn';
+let debugChannels = parseChannelPatterns(
+  process.env.OTEL_TRACING_CHANNEL_DEBUG,
+);
+
+/**
+ * Routes log records to a structured sink, e.g. a pino logger.
+ * Call without a sink to restore the default console output.
+ *
+ * @example
+ * ```ts
+ * setLogger(({ level, message, args, ...fields }) => logger[level](fields, message));
+ * ```
+ */
+export function setLogger(logSink?: LogSink): void {
+  sink = logSink ?? consoleSink;
+}
+
+/**
+ * Sets the minimum level of the records passed to the sink, defaults to `warn`
+ */
+export function setLogLevel(level: LogLevel | 'silent'): void {
+  threshold = level;
+}
+
+/**
+ * Enables all records about the matching channels, whatever the log level.
+ * Takes a comma-separated list of channel names where `*` matches any characters, e.g. `db:*,http`,
+ * like the `OTEL_TRACING_CHANNEL_DEBUG` environment variable it defaults to.
+ * Call without patterns to disable it.
+ */
+export function setDebugChannels(patterns?: string): void {
+  debugChannels = parseChannelPatterns(patterns);
+}
+
+/**
+ * Passes a record to the sink if it's enabled by the level or the channel filter
+ */
+export function log(
+  level: LogLevel,
+  message: string,
+  fields: LogFields = {},
+  args: unknown[] = [],
+): void {
+  if (!isEnabled(level, fields.channel)) {
+    return;
+  }
+
+  sink({ ...fields, level, message, args });
+}
+
+/**
+ * Whether records of a level, about a channel, reach the sink.
+ * Lets callers skip building costly fields.
+ */
+export function isEnabled(level: LogLevel, channel?: string): boolean {
+  return (
+    LEVELS[level] >= LEVELS[threshold] ||
+    (channel !== undefined &&
+      debugChannels.some((pattern) => pattern.test(channel)))
+  );
+}
+
+/**
+ * Gets the trace and span ID fields of a span
+ */
+export function getSpanFields(span: Span | undefined): LogFields {
+  if (!span) {
+    return {};
+  }
+
+  const { traceId, spanId } = span.spanContext();
+
+  return { traceId, spanId };
+}
+
+function parseChannelPatterns(patterns: string | undefined): RegExp[] {
+  return (patterns ?? '')
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+    .map(
+      (pattern) =>
+        new RegExp(
+          `^${pattern
+            .split('*')
+            .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*')}$`,
+        ),
+    );
+}
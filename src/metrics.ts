@@ -0,0 +1,149 @@
+import type { TracingChannelSubscribers } from 'node:diagnostics_channel';
+import {
+  metrics,
+  SpanStatusCode,
+  type Attributes,
+  type Counter,
+  type Histogram,
+  type MeterProvider,
+} from '@opentelemetry/api';
+import {
+  createTerminalSubscribers,
+  defaultClassifyError,
+  type ErrorClassifier,
+} from './lifecycle';
+import { resolveAttributes, type SpanAttributeMap } from './spanDefinition';
+import { callHook } from './utils';
+
+/**
+ * Options for the duration and error-rate metrics recorded for each channel operation
+ */
+export interface ChannelMetricsOptions<TData = any> {
+  /**
+   * Meter provider to get the meter from, defaults to the global one
+   */
+  meterProvider?: MeterProvider;
+  /**
+   * Metric attributes taken from the channel data, added to the `tracing_channel.name` attribute
+   */
+  attributes?: SpanAttributeMap<TData>;
+}
+
+interface ChannelInstruments {
+  duration: Histogram;
+  calls: Counter;
+  errors: Counter;
+}
+
+const METER_NAME = 'otel-tracing-channel';
+
+// Instruments by meter provider, so providers registered after the channel was created are picked up
+const instrumentsByProvider = new WeakMap<MeterProvider, ChannelInstruments>();
+
+/**
+ * Builds subscribers recording for each operation, independently of its span:
+ *
+ * - `tracing_channel.duration`: histogram of the time from `start` to the event finishing it, in seconds
+ * - `tracing_channel.calls`: counter of finished operations
+ * - `tracing_channel.errors`: counter of failed operations
+ *
+ * Every data point has the `tracing_channel.name` attribute, failed operations an `error.type` one as well.
+ * Errors are classified like on spans, so e.g. `AbortError`s don't count as failures.
+ *
+ * @param classifyError - The `classifyError` option of the channel, `defaultClassifyError` by default
+ */
+export function createMetricsSubscribers<TData extends object>(
+  name: string,
+  options: ChannelMetricsOptions<TData> = {},
+  classifyError?: ErrorClassifier<TData>,
+): TracingChannelSubscribers<TData> {
+  const startTimes = new WeakMap<object, number>();
+  return createTerminalSubscribers<TData>({
+    start(data) {
+      startTimes.set(data, performance.now());
+    },
+    terminal(data, failed) {
+      const startTime = startTimes.get(data);
+      if (startTime === undefined) {
+        return;
+      }
+
+      const instruments = getInstruments(
+        options.meterProvider ?? metrics.getMeterProvider(),
+      );
+      const attributes: Attributes = {
+        ...(options.attributes
+          ? resolveAttributes(options.attributes, data, name, 'metrics')
+          : undefined),
+        'tracing_channel.name': name,
+      };
+
+      const errorType = failed
+        ? getErrorType(data.error, data, name, classifyError)
+        : undefined;
+      if (errorType !== undefined) {
+        attributes['error.type'] = errorType;
+        instruments.errors.add(1, attributes);
+      }
+
+      instruments.calls.add(1, attributes);
+      instruments.duration.record(
+        (performance.now() - startTime) / 1000,
+        attributes,
+      );
+    },
+  }) as TracingChannelSubscribers<TData>;
+}
+
+function getInstruments(meterProvider: MeterProvider): ChannelInstruments {
+  let instruments = instrumentsByProvider.get(meterProvider);
+  if (!instruments) {
+    const meter = meterProvider.getMeter(METER_NAME);
+    instruments = {
+      duration: meter.createHistogram('tracing_channel.duration', {
+        description: 'Duration of tracing channel operations',
+        unit: 's',
+      }),
+      calls: meter.createCounter('tracing_channel.calls', {
+        description: 'Number of finished tracing channel operations',
+        unit: '{call}',
+      }),
+      errors: meter.createCounter('tracing_channel.errors', {
+        description: 'Number of failed tracing channel operations',
+        unit: '{error}',
+      }),
+    };
+    instrumentsByProvider.set(meterProvider, instruments);
+  }
+
+  return instruments;
+}
+
+/**
+ * Gets the `error.type` of a failed operation, or `undefined` if the error doesn't fail it
+ */
+function getErrorType<TData>(
+  error: unknown,
+  data: TData,
+  channel: string,
+  classifyError: ErrorClassifier<TData> | undefined,
+): string | undefined {
+  const classification =
+    (classifyError &&
+      callHook(
+        channel,
+        'classifyError',
+        undefined,
+        () => classifyError(error, data),
+        'metrics',
+      )) ??
+    defaultClassifyError(error);
+  if (
+    (classification.status ?? SpanStatusCode.ERROR) !== SpanStatusCode.ERROR
+  ) {
+    return undefined;
+  }
+
+  const errorType = classification.attributes?.['error.type'];
+  return errorType === undefined ? '_OTHER' : String(errorType);
+}
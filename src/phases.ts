@@ -0,0 +1,113 @@
+import type { TracingChannelSubscribers } from 'node:diagnostics_channel';
+import {
+  context,
+  createContextKey,
+  type Attributes,
+  type Span,
+} from '@opentelemetry/api';
+
+/**
+ * How the phases of an operation are recorded on its span
+ *
+ * - `events`: a span event for each of the `end`, `asyncStart` and `asyncEnd` channel events
+ * - `attributes`: the duration of each phase in seconds, as the `tracing_channel.sync.duration`
+ *   (`start` to `end`), `tracing_channel.pending.duration` (`end` to `asyncStart`) and
+ *   `tracing_channel.callback.duration` (`asyncStart` to `asyncEnd`) attributes
+ */
+export type ChannelPhaseMode = 'events' | 'attributes';
+
+// Holds the span of the innermost channel operation, which may not be the active span
+export const CHANNEL_SPAN_KEY = createContextKey(
+  'otel-tracing-channel operation span',
+);
+
+/**
+ * Adds an event to the span of the channel operation running the caller,
+ * even when a child span is active
+ *
+ * @returns Whether a channel operation span was found
+ *
+ * @example
+ * ```ts
+ * channel.tracePromise(async () => {
+ *   await acquireConnection();
+ *   addChannelEvent('connection.acquired', { 'pool.size': pool.size });
+ * }, data);
+ * ```
+ */
+export function addChannelEvent(
+  name: string,
+  attributes?: Attributes,
+): boolean {
+  const span = context.active().getValue(CHANNEL_SPAN_KEY) as Span | undefined;
+  span?.addEvent(name, attributes);
+
+  return span !== undefined;
+}
+
+/**
+ * Builds subscribers recording the phases of each operation on its span
+ *
+ * @param getSpan - Gets the span of an operation
+ */
+export function createPhaseSubscribers<TData extends object>(
+  mode: ChannelPhaseMode,
+  getSpan: (data: TData) => Span | undefined,
+): TracingChannelSubscribers<TData> {
+  if (mode === 'events') {
+    return {
+      end(data) {
+        getSpan(data)?.addEvent('tracing_channel.end');
+      },
+      asyncStart(data) {
+        getSpan(data)?.addEvent('tracing_channel.asyncStart');
+      },
+      asyncEnd(data) {
+        getSpan(data)?.addEvent('tracing_channel.asyncEnd');
+      },
+    } as TracingChannelSubscribers<TData>;
+  }
+
+  const startTimes = new WeakMap<object, number>();
+  const endTimes = new WeakMap<object, number>();
+  const asyncStartTimes = new WeakMap<object, number>();
+
+  function setDuration(
+    data: TData,
+    attribute: string,
+    since: WeakMap<object, number>,
+    now: number,
+  ): void {
+    const time = since.get(data);
+    if (time !== undefined) {
+      getSpan(data)?.setAttribute(attribute, (now - time) / 1000);
+    }
+  }
+
+  return {
+    start(data) {
+      if (getSpan(data)) {
+        startTimes.set(data, performance.now());
+      }
+    },
+    end(data) {
+      const now = performance.now();
+      endTimes.set(data, now);
+      setDuration(data, 'tracing_channel.sync.duration', startTimes, now);
+    },
+    asyncStart(data) {
+      const now = performance.now();
+      asyncStartTimes.set(data, now);
+      // Callbacks invoked synchronously start before `end`
+      setDuration(data, 'tracing_channel.pending.duration', endTimes, now);
+    },
+    asyncEnd(data) {
+      setDuration(
+        data,
+        'tracing_channel.callback.duration',
+        asyncStartTimes,
+        performance.now(),
+      );
+    },
+  } as TracingChannelSubscribers<TData>;
+}
@@ -0,0 +1,97 @@
+import type { TracingChannelSubscribers } from 'node:diagnostics_channel';
+import { SpanKind, type Span } from '@opentelemetry/api';
+import { tracingChannel } from '../tracingChannel';
+import { createSpanTransform } from '../spanDefinition';
+import {
+  setHttpResponseStatus,
+  TRACER_NAME,
+  type PresetOptions,
+  type Uninstrument,
+} from './utils';
+import { recordSpanError } from '../lifecycle';
+
+/**
+ * Payload published by Fastify on the `fastify.request.handler` tracing channel
+ */
+export interface FastifyHandlerData {
+  request: {
+    method: string;
+    url: string;
+    routeOptions?: { url?: string };
+  };
+  reply: { statusCode: number };
+  async?: boolean;
+  error?: unknown;
+  span?: Span;
+}
+
+/**
+ * Options for `instrumentFastify`
+ */
+export type FastifyInstrumentationOptions = PresetOptions;
+
+/**
+ * Traces Fastify route handlers through the `fastify.request.handler` tracing channel (Fastify 5+).
+ * The handler span is active while the handler runs, so spans started inside it are its children.
+ *
+ * @returns A function removing the subscriptions
+ */
+export function instrumentFastify(
+  options: FastifyInstrumentationOptions = {},
+): Uninstrument {
+  const createSpan = createSpanTransform<FastifyHandlerData>({
+    tracerName: TRACER_NAME,
+    tracerProvider: options.tracerProvider,
+    name: (data) => `${data.request.method} ${getRoute(data)}`,
+    kind: SpanKind.INTERNAL,
+    attributes: {
+      'http.request.method': (data) => data.request.method,
+      'http.route': (data) => getRoute(data),
+    },
+  });
+
+  const channel = tracingChannel<FastifyHandlerData>(
+    'fastify.request.handler',
+    createSpan,
+  );
+
+  // Async handlers set `data.async` before `end`, and finish on `asyncEnd`
+  function finish(data: FastifyHandlerData): void {
+    if (!data.span) {
+      return;
+    }
+
+    if (data.error === undefined) {
+      setHttpResponseStatus(data.span, data.reply.statusCode, 500);
+    }
+
+    data.span.end();
+  }
+
+  const subscribers = {
+    end(data: FastifyHandlerData) {
+      if (!data.async) {
+        finish(data);
+      }
+    },
+    asyncEnd(data: FastifyHandlerData) {
+      finish(data);
+    },
+    error(data: FastifyHandlerData) {
+      if (data.span) {
+        recordSpanError(data.span, data.error);
+      }
+    },
+  } as TracingChannelSubscribers<FastifyHandlerData>;
+
+  channel.subscribe(subscribers);
+
+  return () => {
+    channel.unsubscribe(subscribers);
+    channel.unbind();
+  };
+}
+
+function getRoute(data: FastifyHandlerData): string {
+  return data.request.routeOptions?.url ?? data.request.url;
+}
@@ -0,0 +1,106 @@
+import { subscribe, unsubscribe } from 'node:diagnostics_channel';
+import type { ClientRequest, IncomingMessage } from 'node:http';
+import { context, trace, SpanKind, type Span } from '@opentelemetry/api';
+import {
+  getHttpClientAttributes,
+  getPresetTracer,
+  injectHeaders,
+  setHttpResponseStatus,
+  type PresetOptions,
+  type Uninstrument,
+} from './utils';
+import { recordSpanError } from '../lifecycle';
+
+/**
+ * Options for `instrumentHttpClient`
+ */
+export interface HttpClientInstrumentationOptions extends PresetOptions {
+  /**
+   * Return `true` to skip tracing a request
+   */
+  ignoreRequest?: (request: ClientRequest) => boolean;
+}
+
+/**
+ * Traces requests made with `node:http` and `node:https` as `CLIENT` spans.
+ *
+ * `node:http` publishes plain diagnostics channels (`http.client.*`) rather than a tracing channel.
+ * Spans are started on `http.client.request.created` where available (Node.js 22+), which allows
+ * injecting the context into the outgoing headers with the global propagator. On older versions they
+ * are started on `http.client.request.start`, after the headers were sent, so the context is not injected.
+ *
+ * @returns A function removing the subscriptions
+ */
+export function instrumentHttpClient(
+  options: HttpClientInstrumentationOptions = {},
+): Uninstrument {
+  const spans = new WeakMap<ClientRequest, Span>();
+
+  function startSpan(request: ClientRequest): void {
+    if (spans.has(request) || options.ignoreRequest?.(request)) {
+      return;
+    }
+
+    const host = request.getHeader('host') ?? request.host;
+    const url = new URL(`${request.protocol}//${String(host)}${request.path}`);
+    const span = getPresetTracer(options).startSpan(
+      request.method,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: getHttpClientAttributes(request.method, url),
+      },
+      context.active(),
+    );
+    spans.set(request, span);
+
+    if (!request.headersSent) {
+      injectHeaders(trace.setSpan(context.active(), span), (name, value) =>
+        request.setHeader(name, value),
+      );
+    }
+  }
+
+  function onRequest(message: unknown): void {
+    startSpan((message as { request: ClientRequest }).request);
+  }
+
+  function onResponseFinish(message: unknown): void {
+    const { request, response } = message as {
+      request: ClientRequest;
+      response: IncomingMessage;
+    };
+
+    const span = spans.get(request);
+    if (span) {
+      setHttpResponseStatus(span, response.statusCode ?? 0, 400);
+      span.end();
+      spans.delete(request);
+    }
+  }
+
+  function onRequestError(message: unknown): void {
+    const { request, error } = message as {
+      request: ClientRequest;
+      error: unknown;
+    };
+
+    const span = spans.get(request);
+    if (span) {
+      recordSpanError(span, error);
+      span.end();
+      spans.delete(request);
+    }
+  }
+
+  subscribe('http.client.request.created', onRequest);
+  subscribe('http.client.request.start', onRequest);
+  subscribe('http.client.response.finish', onResponseFinish);
+  subscribe('http.client.request.error', onRequestError);
+
+  return () => {
+    unsubscribe('http.client.request.created', onRequest);
+    unsubscribe('http.client.request.start', onRequest);
+    unsubscribe('http.client.response.finish', onResponseFinish);
+    unsubscribe('http.client.request.error', onRequestError);
+  };
+}
@@ -0,0 +1,19 @@
+export {
+  instrumentUndici,
+  type UndiciInstrumentationOptions,
+  type UndiciRequest,
+} from './undici';
+export {
+  instrumentHttpClient,
+  type HttpClientInstrumentationOptions,
+} from './httpClient';
+export {
+  instrumentNetClient,
+  type NetClientInstrumentationOptions,
+} from './netClient';
+export {
+  instrumentFastify,
+  type FastifyHandlerData,
+  type FastifyInstrumentationOptions,
+} from './fastify';
+export type { PresetOptions, Uninstrument } from './utils';
@@ -0,0 +1,74 @@
+import { subscribe, unsubscribe } from 'node:diagnostics_channel';
+import type { Socket } from 'node:net';
+import { context, SpanKind } from '@opentelemetry/api';
+import {
+  getPresetTracer,
+  type PresetOptions,
+  type Uninstrument,
+} from './utils';
+import { recordSpanError } from '../lifecycle';
+
+/**
+ * Options for `instrumentNetClient`
+ */
+export type NetClientInstrumentationOptions = PresetOptions;
+
+/**
+ * Traces outgoing `node:net` connections as `CLIENT` spans, from `net.connect()` until the socket
+ * connects or fails.
+ *
+ * `node:net` publishes the plain `net.client.socket` diagnostics channel rather than a tracing channel,
+ * before the socket starts connecting, so spans are started with the active context as parent and the
+ * peer is only known once connected.
+ *
+ * @returns A function removing the subscription
+ */
+export function instrumentNetClient(
+  options: NetClientInstrumentationOptions = {},
+): Uninstrument {
+  function onSocket(message: unknown): void {
+    const { socket } = message as { socket: Socket };
+    const span = getPresetTracer(options).startSpan(
+      'connect',
+      { kind: SpanKind.CLIENT },
+      context.active(),
+    );
+
+    function finish(): void {
+      socket.off('connect', onConnect);
+      socket.off('error', onError);
+      socket.off('close', finish);
+      span.end();
+    }
+
+    function onConnect(): void {
+      if (socket.remoteAddress) {
+        span.setAttributes({
+          'network.transport': 'tcp',
+          'network.type': socket.remoteFamily === 'IPv6' ? 'ipv6' : 'ipv4',
+          'network.peer.address': socket.remoteAddress,
+          'network.peer.port': socket.remotePort,
+        });
+      } else {
+        span.setAttribute('network.transport', 'unix');
+      }
+      finish();
+    }
+
+    function onError(error: Error): void {
+      recordSpanError(span, error);
+      finish();
+    }
+
+    socket.once('connect', onConnect);
+    socket.once('error', onError);
+    // Destroyed before connecting
+    socket.once('close', finish);
+  }
+
+  subscribe('net.client.socket', onSocket);
+
+  return () => {
+    unsubscribe('net.client.socket', onSocket);
+  };
+}
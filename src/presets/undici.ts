@@ -0,0 +1,113 @@
+import { subscribe, unsubscribe } from 'node:diagnostics_channel';
+import { context, trace, SpanKind, type Span } from '@opentelemetry/api';
+import {
+  getHttpClientAttributes,
+  getPresetTracer,
+  injectHeaders,
+  setHttpResponseStatus,
+  type PresetOptions,
+  type Uninstrument,
+} from './utils';
+import { recordSpanError } from '../lifecycle';
+
+/**
+ * The parts of an undici request used by the preset
+ */
+export interface UndiciRequest {
+  method: string;
+  origin: string | URL;
+  path: string;
+  addHeader(name: string, value: string): unknown;
+}
+
+/**
+ * Options for `instrumentUndici`
+ */
+export interface UndiciInstrumentationOptions extends PresetOptions {
+  /**
+   * Return `true` to skip tracing a request
+   */
+  ignoreRequest?: (request: UndiciRequest) => boolean;
+}
+
+/**
+ * Traces requests made with `undici`, including the global `fetch`, as `CLIENT` spans.
+ *
+ * undici publishes plain diagnostics channels (`undici:request:*`) rather than a tracing channel,
+ * so spans are started on `create` with the active context as parent, and the context is injected
+ * into the outgoing headers with the global propagator.
+ *
+ * @returns A function removing the subscriptions
+ */
+export function instrumentUndici(
+  options: UndiciInstrumentationOptions = {},
+): Uninstrument {
+  const spans = new WeakMap<UndiciRequest, Span>();
+
+  function onCreate(message: unknown): void {
+    const { request } = message as { request: UndiciRequest };
+    if (options.ignoreRequest?.(request)) {
+      return;
+    }
+
+    const url = new URL(request.path, request.origin);
+    const span = getPresetTracer(options).startSpan(
+      request.method.toUpperCase(),
+      {
+        kind: SpanKind.CLIENT,
+        attributes: getHttpClientAttributes(request.method, url),
+      },
+      context.active(),
+    );
+    spans.set(request, span);
+
+    injectHeaders(trace.setSpan(context.active(), span), (name, value) =>
+      request.addHeader(name, value),
+    );
+  }
+
+  function onHeaders(message: unknown): void {
+    const { request, response } = message as {
+      request: UndiciRequest;
+      response: { statusCode: number };
+    };
+
+    const span = spans.get(request);
+    if (span) {
+      setHttpResponseStatus(span, response.statusCode, 400);
+    }
+  }
+
+  function onTrailers(message: unknown): void {
+    const { request } = message as { request: UndiciRequest };
+
+    spans.get(request)?.end();
+    spans.delete(request);
+  }
+
+  function onError(message: unknown): void {
+    const { request, error } = message as {
+      request: UndiciRequest;
+      error: unknown;
+    };
+
+    const span = spans.get(request);
+    if (span) {
+      recordSpanError(span, error);
+      span.end();
+      spans.delete(request);
+    }
+  }
+
+  subscribe('undici:request:create', onCreate);
+  subscribe('undici:request:headers', onHeaders);
+  subscribe('undici:request:trailers', onTrailers);
+  subscribe('undici:request:error', onError);
+
+  return () => {
+    unsubscribe('undici:request:create', onCreate);
+    unsubscribe('undici:request:headers', onHeaders);
+    unsubscribe('undici:request:trailers', onTrailers);
+    unsubscribe('undici:request:error', onError);
+  };
+}
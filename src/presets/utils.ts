@@ -0,0 +1,81 @@
+import {
+  propagation,
+  trace,
+  SpanStatusCode,
+  type Context,
+  type Span,
+  type Tracer,
+  type TracerProvider,
+} from '@opentelemetry/api';
+
+/**
+ * Options shared by all presets
+ */
+export interface PresetOptions {
+  /**
+   * Tracer provider to create spans with, defaults to the global one
+   */
+  tracerProvider?: TracerProvider;
+}
+
+/**
+ * Removes the subscriptions made by a preset
+ */
+export type Uninstrument = () => void;
+
+export const TRACER_NAME = 'otel-tracing-channel';
+
+/**
+ * Gets the tracer presets create their spans with
+ */
+export function getPresetTracer(options: PresetOptions): Tracer {
+  return (options.tracerProvider ?? trace).getTracer(TRACER_NAME);
+}
+
+/**
+ * Builds the attributes describing an outgoing HTTP request, following the OTel semantic conventions
+ */
+export function getHttpClientAttributes(method: string, url: URL) {
+  const defaultPort = url.protocol === 'https:' ? 443 : 80;
+
+  return {
+    'http.request.method': method.toUpperCase(),
+    'url.full': url.href,
+    'server.address': url.hostname,
+    'server.port': url.port ? Number(url.port) : defaultPort,
+  };
+}
+
+/**
+ * Sets the response status code on a span, failing it for error status codes
+ */
+export function setHttpResponseStatus(
+  span: Span,
+  statusCode: number,
+  errorFrom: number,
+): void {
+  span.setAttribute('http.response.status_code', statusCode);
+
+  if (statusCode >= errorFrom) {
+    span.setAttribute('error.type', String(statusCode));
+    span.setStatus({ code: SpanStatusCode.ERROR });
+  }
+}
+
+/**
+ * Injects the context into outgoing request headers with the global propagator
+ */
+export function injectHeaders(
+  ctx: Context,
+  setHeader: (name: string, value: string) => void,
+): void {
+  propagation.inject(
+    ctx,
+    {},
+    {
+      set(_carrier, name, value) {
+        setHeader(name, value);
+      },
+    },
+  );
+}
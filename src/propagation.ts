@@ -0,0 +1,198 @@
+import {
+  baggageEntryMetadataFromString,
+  context,
+  createTraceState,
+  defaultTextMapGetter,
+  defaultTextMapSetter,
+  isSpanContextValid,
+  propagation,
+  trace,
+  type Context,
+  type TextMapGetter,
+  type TextMapPropagator,
+  type TextMapSetter,
+} from '@opentelemetry/api';
+
+/**
+ * Serializable carrier of a span context and baggage, e.g. to pass to worker threads or child processes
+ */
+export type ContextCarrier = Record<string, string>;
+
+/**
+ * Options for `injectContext` and `extractContext`
+ */
+export interface CarrierOptions {
+  /**
+   * Propagator writing and reading the carrier, e.g. the global `propagation` API.
+   * Defaults to a built-in W3C trace context and baggage propagator.
+   */
+  propagator?: TextMapPropagator;
+}
+
+const TRACEPARENT = 'traceparent';
+const TRACESTATE = 'tracestate';
+const BAGGAGE = 'baggage';
+
+const TRACEPARENT_PATTERN =
+  /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(-.*)?$/;
+
+/**
+ * Propagates the span context as W3C `traceparent` and `tracestate`, and baggage as the W3C `baggage` header
+ */
+const w3cPropagator: TextMapPropagator<ContextCarrier> = {
+  inject(ctx: Context, carrier: ContextCarrier, setter: TextMapSetter) {
+    const spanContext = trace.getSpanContext(ctx);
+    if (spanContext && isSpanContextValid(spanContext)) {
+      const flags = spanContext.traceFlags.toString(16).padStart(2, '0');
+      setter.set(
+        carrier,
+        TRACEPARENT,
+        `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`,
+      );
+
+      const traceState = spanContext.traceState?.serialize();
+      if (traceState) {
+        setter.set(carrier, TRACESTATE, traceState);
+      }
+    }
+
+    const entries = propagation.getBaggage(ctx)?.getAllEntries() ?? [];
+    if (entries.length > 0) {
+      setter.set(
+        carrier,
+        BAGGAGE,
+        entries
+          .map(([key, entry]) => {
+            const pair = `${encodeURIComponent(key)}=${encodeURIComponent(entry.value)}`;
+
+            return entry.metadata
+              ? `${pair};${entry.metadata.toString()}`
+              : pair;
+          })
+          .join(','),
+      );
+    }
+  },
+
+  extract(ctx: Context, carrier: ContextCarrier, getter: TextMapGetter) {
+    const match = TRACEPARENT_PATTERN.exec(
+      getFirst(getter.get(carrier, TRACEPARENT))?.trim() ?? '',
+    );
+    // Version `ff` is invalid, and version `00` has no extra fields
+    if (match && match[1] !== 'ff' && !(match[1] === '00' && match[5])) {
+      const traceState = getFirst(getter.get(carrier, TRACESTATE));
+      const spanContext = {
+        traceId: match[2] as string,
+        spanId: match[3] as string,
+        traceFlags: parseInt(match[4] as string, 16),
+        isRemote: true,
+        traceState: traceState ? createTraceState(traceState) : undefined,
+      };
+
+      if (isSpanContextValid(spanContext)) {
+        ctx = trace.setSpanContext(ctx, spanContext);
+      }
+    }
+
+    const baggageHeader = getFirst(getter.get(carrier, BAGGAGE));
+    if (baggageHeader) {
+      const entries = baggageHeader.split(',').flatMap((member) => {
+        const [pair = '', ...properties] = member.split(';');
+        const separator = pair.indexOf('=');
+        if (separator <= 0) {
+          return [];
+        }
+
+        let key: string;
+        let value: string;
+        try {
+          key = decodeURIComponent(pair.slice(0, separator).trim());
+          value = decodeURIComponent(pair.slice(separator + 1).trim());
+        } catch {
+          // Skip malformed percent-encoding, keeping the other members
+          return [];
+        }
+        const metadata = properties.join(';');
+
+        return [
+          [
+            key,
+            {
+              value,
+              metadata: metadata
+                ? baggageEntryMetadataFromString(metadata)
+                : undefined,
+            },
+          ] as const,
+        ];
+      });
+
+      if (entries.length > 0) {
+        ctx = propagation.setBaggage(
+          ctx,
+          propagation.createBaggage(Object.fromEntries(entries)),
+        );
+      }
+    }
+
+    return ctx;
+  },
+
+  fields() {
+    return [TRACEPARENT, TRACESTATE, BAGGAGE];
+  },
+};
+
+/**
+ * Writes the span context and baggage of `ctx` into a serializable carrier, to continue the trace
+ * in another thread or process, e.g. by putting it on the channel data of a queued job
+ *
+ * @param carrier - The carrier to write to, a new one by default
+ * @param ctx - The context to propagate, the active one by default
+ * @returns The carrier
+ *
+ * @example
+ * ```ts
+ * worker.postMessage({ job, carrier: injectContext() });
+ * ```
+ */
+export function injectContext(
+  carrier: ContextCarrier = {},
+  ctx: Context = context.active(),
+  options: CarrierOptions = {},
+): ContextCarrier {
+  (options.propagator ?? w3cPropagator).inject(
+    ctx,
+    carrier,
+    defaultTextMapSetter,
+  );
+
+  return carrier;
+}
+
+/**
+ * Reads the span context and baggage written by `injectContext` into a context,
+ * making the remote span the parent of spans started with it
+ *
+ * @param carrier - The carrier to read from
+ * @param ctx - The context to extend, the active one by default
+ */
+export function extractContext(
+  carrier: ContextCarrier | undefined,
+  ctx: Context = context.active(),
+  options: CarrierOptions = {},
+): Context {
+  if (!carrier) {
+    return ctx;
+  }
+
+  return (options.propagator ?? w3cPropagator).extract(
+    ctx,
+    carrier,
+    defaultTextMapGetter,
+  );
+}
+
+function getFirst(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
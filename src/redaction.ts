@@ -0,0 +1,353 @@
+import type {
+  Attributes,
+  AttributeValue,
+  Exception,
+  Span,
+  SpanStatus,
+} from '@opentelemetry/api';
+import { log } from './logger';
+
+/**
+ * Rules applied to the attributes, exception messages and status descriptions of the spans created by `tracingChannel`
+ */
+export interface RedactionOptions {
+  /**
+   * Attributes whose value is replaced with the mask, by name (case-insensitive) or pattern,
+   * e.g. `['db.query.parameter.password', /token/i]`
+   */
+  keys?: Array<string | RegExp>;
+  /**
+   * Patterns replaced with the mask in string values, exception messages and stack traces.
+   * Use the `g` flag to replace every match.
+   */
+  patterns?: RegExp[];
+  /**
+   * Replaces the literals of SQL queries with `?` in these attributes,
+   * `true` for the `db.query.text` and `db.statement` attributes
+   */
+  sql?: boolean | Array<string | RegExp>;
+  /**
+   * Replaces query string values and credentials of URLs with the mask in these attributes,
+   * `true` for the `url.full`, `url.query`, `http.url` and `http.target` attributes
+   */
+  url?: boolean | Array<string | RegExp>;
+  /**
+   * Maximum length of string values, longer ones are cut and end with the truncation marker
+   */
+  maxLength?: number;
+  /**
+   * Maximum number of attributes on a span, the ones set later are dropped and
+   * counted in the `tracing_channel.dropped_attributes_count` attribute
+   */
+  maxCount?: number;
+  /**
+   * Replacement of redacted values, defaults to `REDACTED`
+   */
+  mask?: string;
+  /**
+   * Appended to truncated values, defaults to `...[truncated]`
+   */
+  truncationMarker?: string;
+}
+
+const DEFAULT_SQL_KEYS = ['db.query.text', 'db.statement'];
+const DEFAULT_URL_KEYS = ['url.full', 'url.query', 'http.url', 'http.target'];
+const DROPPED_COUNT_ATTRIBUTE = 'tracing_channel.dropped_attributes_count';
+
+// Quoted strings, then hexadecimal and decimal numbers not part of identifiers
+const SQL_LITERAL =
+  /'(?:[^']|'')*'|\b0x[\da-f]+\b|(?<![\w$.])-?\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/gi;
+const URL_CREDENTIALS = /^([a-z][\w+.-]*:\/\/)[^/?#@]*@/i;
+
+let globalRedaction: RedactionOptions | undefined;
+
+/**
+ * Sets the redaction rules of all channels, merged with the `redaction` option of each channel.
+ * Call without rules to disable global redaction.
+ *
+ * @example
+ * ```ts
+ * setRedaction({ keys: [/password|token/i], sql: true, url: true, maxLength: 2048 });
+ * ```
+ */
+export function setRedaction(options?: RedactionOptions): void {
+  globalRedaction = options;
+}
+
+/**
+ * Merges the global rules with the rules of a channel: `keys` and `patterns` are combined,
+ * other rules of the channel override the global ones. `false` disables redaction for the channel.
+ */
+export function resolveRedaction(
+  options: RedactionOptions | false | undefined,
+): RedactionOptions | undefined {
+  if (options === false) {
+    return undefined;
+  }
+
+  if (!globalRedaction || !options) {
+    return options ?? globalRedaction;
+  }
+
+  return {
+    ...globalRedaction,
+    ...options,
+    keys: [...(globalRedaction.keys ?? []), ...(options.keys ?? [])],
+    patterns: [
+      ...(globalRedaction.patterns ?? []),
+      ...(options.patterns ?? []),
+    ],
+  };
+}
+
+// Channels already warned about spans whose start attributes can't be redacted
+const unredactableChannels = new Set<string>();
+
+/**
+ * Redacts the attributes a span is about to be started with, e.g. the ones of a span definition,
+ * which `redactSpan` then leaves as they are
+ */
+export function redactAttributes(
+  attributes: Attributes,
+  options: RedactionOptions,
+): Attributes {
+  const writer = createAttributeWriter(options);
+  const redacted: Attributes = {};
+  const target = {
+    setAttribute(key: string, value: AttributeValue) {
+      redacted[key] = value;
+    },
+  };
+
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      writer.set(target, key, value);
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Redacts the attributes a span was started with, and wraps it so that attributes, exceptions
+ * and status descriptions recorded later are redacted as well
+ *
+ * @param channel - Name of the channel that created the span, for the warning about start attributes that can't be redacted
+ * @param startRedacted - Whether the start attributes were already redacted by `redactAttributes`
+ * @returns The span to use in place of the original one
+ */
+export function redactSpan(
+  span: Span,
+  options: RedactionOptions,
+  channel: string,
+  startRedacted = false,
+): Span {
+  const writer = createAttributeWriter(options);
+  const { redactor } = writer;
+  // Attributes of SDK spans, set when the span was started
+  const attributes = (span as { attributes?: Attributes }).attributes;
+
+  if (attributes && typeof attributes === 'object') {
+    if (startRedacted) {
+      writer.count(attributes);
+    } else {
+      for (const [key, value] of Object.entries(attributes)) {
+        delete attributes[key];
+        if (value !== undefined) {
+          writer.set(span, key, value);
+        }
+      }
+    }
+  } else if (!startRedacted && !unredactableChannels.has(channel)) {
+    unredactableChannels.add(channel);
+    log(
+      'warn',
+      "Span doesn't expose its attributes, the attributes it was started with are not redacted",
+      { channel, event: 'start' },
+    );
+  }
+
+  return new Proxy(span, {
+    get(target, property, receiver) {
+      switch (property) {
+        case 'setAttribute':
+          return (key: string, value: AttributeValue) => {
+            if (value !== undefined) {
+              writer.set(target, key, value);
+            }
+            return receiver;
+          };
+        case 'setAttributes':
+          return (values: Attributes) => {
+            for (const [key, value] of Object.entries(values)) {
+              if (value !== undefined) {
+                writer.set(target, key, value);
+              }
+            }
+            return receiver;
+          };
+        case 'recordException':
+          return (exception: Exception, time?: Parameters<Span['end']>[0]) => {
+            target.recordException(redactor.exception(exception), time);
+          };
+        case 'setStatus':
+          return (status: SpanStatus) => {
+            target.setStatus(
+              status.message === undefined
+                ? status
+                : { ...status, message: redactor.text(status.message) },
+            );
+            return receiver;
+          };
+        default:
+          return Reflect.get(target, property, receiver) as unknown;
+      }
+    },
+  });
+}
+
+/**
+ * Redacts attributes and enforces `maxCount` while they are set
+ */
+function createAttributeWriter(options: RedactionOptions) {
+  const redactor = createRedactor(options);
+  const keys = new Set<string>();
+  let dropped = 0;
+
+  return {
+    redactor,
+
+    set(
+      target: { setAttribute(key: string, value: AttributeValue): unknown },
+      key: string,
+      value: AttributeValue,
+    ): void {
+      if (!keys.has(key)) {
+        if (options.maxCount !== undefined && keys.size >= options.maxCount) {
+          dropped++;
+          target.setAttribute(DROPPED_COUNT_ATTRIBUTE, dropped);
+          return;
+        }
+        keys.add(key);
+      }
+
+      target.setAttribute(key, redactor.attribute(key, value));
+    },
+
+    // Counts attributes already redacted, so `maxCount` applies to them
+    count(attributes: Attributes): void {
+      for (const [key, value] of Object.entries(attributes)) {
+        if (key === DROPPED_COUNT_ATTRIBUTE) {
+          dropped = typeof value === 'number' ? value : dropped;
+        } else {
+          keys.add(key);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Applies the rules to single values
+ */
+function createRedactor(options: RedactionOptions) {
+  const mask = options.mask ?? 'REDACTED';
+  const marker = options.truncationMarker ?? '...[truncated]';
+  const sqlKeys = options.sql === true ? DEFAULT_SQL_KEYS : options.sql || [];
+  const urlKeys = options.url === true ? DEFAULT_URL_KEYS : options.url || [];
+
+  function text(value: string): string {
+    for (const pattern of options.patterns ?? []) {
+      value = value.replace(pattern, mask);
+    }
+
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      value = value.slice(0, options.maxLength) + marker;
+    }
+
+    return value;
+  }
+
+  function attributeText(key: string, value: string): string {
+    if (matchesKey(sqlKeys, key)) {
+      value = value.replace(SQL_LITERAL, '?');
+    }
+
+    if (matchesKey(urlKeys, key)) {
+      value = sanitizeUrl(value, mask);
+    }
+
+    return text(value);
+  }
+
+  return {
+    text,
+
+    attribute(key: string, value: AttributeValue): AttributeValue {
+      if (matchesKey(options.keys ?? [], key)) {
+        return mask;
+      }
+
+      if (typeof value === 'string') {
+        return attributeText(key, value);
+      }
+
+      if (Array.isArray(value)) {
+        return value.map((item: unknown) =>
+          typeof item === 'string' ? attributeText(key, item) : item,
+        ) as AttributeValue;
+      }
+
+      return value;
+    },
+
+    exception(exception: Exception): Exception {
+      if (typeof exception === 'string') {
+        return text(exception);
+      }
+
+      return {
+        code: exception.code,
+        name: exception.name,
+        message:
+          exception.message === undefined ? undefined : text(exception.message),
+        stack:
+          exception.stack === undefined ? undefined : text(exception.stack),
+      } as Exception;
+    },
+  };
+}
+
+function matchesKey(keys: Array<string | RegExp>, key: string): boolean {
+  return keys.some((candidate) =>
+    typeof candidate === 'string'
+      ? candidate.toLowerCase() === key.toLowerCase()
+      : key.search(candidate) !== -1,
+  );
+}
+
+/**
+ * Masks the credentials and query string values of a URL, or of a query string without a URL
+ */
+function sanitizeUrl(value: string, mask: string): string {
+  value = value.replace(URL_CREDENTIALS, `$1${mask}:${mask}@`);
+
+  const queryStart = value.indexOf('?');
+  if (queryStart === -1 && value.includes('://')) {
+    return value;
+  }
+
+  const fragmentStart = value.indexOf('#', queryStart + 1);
+  const queryEnd = fragmentStart === -1 ? value.length : fragmentStart;
+  const query = value
+    .slice(queryStart + 1, queryEnd)
+    .split('&')
+    .map((pair) => {
+      const separator = pair.indexOf('=');
+
+      return separator === -1 ? pair : `${pair.slice(0, separator + 1)}${mask}`;
+    })
+    .join('&');
+
+  return `${value.slice(0, queryStart + 1)}${query}${value.slice(queryEnd)}`;
+}
@@ -0,0 +1,169 @@
+import type {
+  TracingChannel,
+  TracingChannelSubscribers,
+} from 'node:diagnostics_channel';
+import type { Context, Link, Span } from '@opentelemetry/api';
+import type { RedactionOptions } from './redaction';
+import type { ContextStorageStrategy } from './storage';
+
+/**
+ * What `tracingChannel` does when the channel name is already bound by it
+ *
+ * - `reuse`: keep the existing binding and return its channel, ignoring the new transform and options
+ * - `replace`: unbind the existing binding, then bind the new transform
+ * - `error`: throw an error
+ * - `compose`: run both transforms for each operation, the new span being a child of the existing one
+ */
+export type ChannelConflictPolicy = 'reuse' | 'replace' | 'error' | 'compose';
+
+/**
+ * A transform bound to a channel, several of them when bindings are composed
+ */
+export interface ChannelLayer {
+  owner?: string;
+  transformName: string;
+  // `transformStart`, or the transform built from a span definition
+  transform: (data: any) => unknown;
+  // Context the span is created in, e.g. with a remote parent extracted from the data
+  getParentContext?: (data: any, activeContext: Context) => Context;
+  // Only create spans while `hasEventSubscribers` is true
+  requireSubscribers: boolean;
+  // Whether to create a span for an operation, the parent context passes through otherwise
+  shouldTrace: (data: any, parentContext: Context) => boolean;
+  // Whether `autoEnd` subscribers end the spans of this layer
+  autoEnd: boolean;
+  // Links added to the span once created by this layer, e.g. to the callers of a batch
+  getLinks?: (data: any) => Link[];
+  // Redaction rules of the channel, merged with the global ones when a span is created
+  redaction?: RedactionOptions | false;
+  // Whether the transform redacts the attributes spans are started with, like the one built from a span definition
+  redactsStartAttributes: boolean;
+  // Spans created by this layer, so composed layers can end their own span
+  spans: WeakMap<object, Span>;
+  // Names of the extra stores bound with the OTel storage
+  stores: string[];
+  teardowns: Array<() => void>;
+}
+
+/**
+ * The binding of a channel name by `tracingChannel`
+ */
+export interface ChannelRegistration {
+  name: string;
+  channel: TracingChannel<any, any>;
+  layers: ChannelLayer[];
+  // Subscribers added by this library that don't end spans, by event ending operations
+  internalSubscribers: Record<EndingEvent, number>;
+  strategy: () => ContextStorageStrategy;
+  // Binds the OTel storage to `start` again, so it runs before the stores bound until now
+  rebindStorage: () => void;
+  // Removes the storage binding and all layers
+  unbind: () => void;
+}
+
+/**
+ * Description of a channel bound by `tracingChannel`
+ */
+export interface ChannelInfo {
+  /**
+   * Name of the channel
+   */
+  name: string;
+  /**
+   * Who bound the channel, one entry per composed transform: the `owner` option if set,
+   * otherwise the transform function name or the tracer name of a span definition
+   */
+  boundBy: string[];
+  /**
+   * How the OTel storage is resolved right now
+   */
+  strategy: ContextStorageStrategy;
+  /**
+   * Extra stores bound with the OTel storage by the `stores` option: their `name` if set,
+   * otherwise their transform function name
+   */
+  stores: string[];
+  /**
+   * Whether anything that may end spans subscribes to the `end`, `asyncEnd` or `error` events,
+   * i.e. `autoEnd` or subscribers added outside of this library on an event without internal ones
+   */
+  hasSubscribers: boolean;
+}
+
+// Bindings by channel name
+export const registry = new Map<string, ChannelRegistration>();
+
+/**
+ * Lists the channels currently bound by `tracingChannel`
+ */
+export function listChannels(): ChannelInfo[] {
+  return Array.from(registry.values(), (registration) => ({
+    name: registration.name,
+    boundBy: registration.layers.map(
+      (layer) => layer.owner ?? layer.transformName,
+    ),
+    strategy: registration.strategy(),
+    stores: registration.layers.flatMap((layer) => layer.stores),
+    hasSubscribers: hasEventSubscribers(registration),
+  }));
+}
+
+// Events after which spans may be ended
+const ENDING_EVENTS = ['end', 'asyncEnd', 'error'] as const;
+
+type EndingEvent = (typeof ENDING_EVENTS)[number];
+
+/**
+ * Subscribes subscribers added by this library that don't end spans, e.g. for metrics, counting them
+ * so they are left out of `hasEventSubscribers`
+ *
+ * @returns Unsubscribes them again
+ */
+export function subscribeInternal(
+  registration: ChannelRegistration,
+  channel: TracingChannel<any, any>,
+  subscribers: TracingChannelSubscribers<any>,
+): () => void {
+  const events = ENDING_EVENTS.filter((event) => subscribers[event]);
+
+  channel.subscribe(subscribers);
+  for (const event of events) {
+    registration.internalSubscribers[event]++;
+  }
+
+  return () => {
+    channel.unsubscribe(subscribers);
+    for (const event of events) {
+      registration.internalSubscribers[event]--;
+    }
+  };
+}
+
+/**
+ * Whether anything that may end spans subscribes to the events ending operations: `autoEnd`, or an event
+ * with subscribers but none added by this library. Node only tells whether a channel has subscribers, so
+ * subscribers of your own sharing an event with internal ones can't be told apart and don't count.
+ * `start` and `asyncStart` are left out since the OTel storage bound to them counts as a subscriber.
+ */
+export function hasEventSubscribers(
+  registration: ChannelRegistration,
+): boolean {
+  const { channel, layers, internalSubscribers } = registration;
+
+  return (
+    layers.some((layer) => layer.autoEnd) ||
+    ENDING_EVENTS.some(
+      (event) =>
+        channel[event].hasSubscribers && internalSubscribers[event] === 0,
+    )
+  );
+}
+
+/**
+ * Gets the name of a tracing channel from its `start` channel, `tracing:<name>:start`
+ */
+export function getTracingChannelName(
+  channel: TracingChannel<any, any>,
+): string {
+  return String(channel.start.name).replace(/^tracing:(.*):start$/, '$1');
+}
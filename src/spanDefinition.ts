@@ -0,0 +1,218 @@
+import {
+  context,
+  trace,
+  type Attributes,
+  type AttributeValue,
+  type Link,
+  type Span,
+  type SpanKind,
+  type TracerProvider,
+} from '@opentelemetry/api';
+import { redactAttributes, type RedactionOptions } from './redaction';
+import { callHook } from './utils';
+
+/**
+ * Maps span attribute names to either a key of the channel data or a selector function.
+ * Values that are `undefined` or can't be used as attribute values are skipped.
+ */
+export type SpanAttributeMap<TData> = Record<
+  string,
+  (keyof TData & string) | ((data: TData) => AttributeValue | undefined)
+>;
+
+/**
+ * Declarative description of the span created for each channel operation
+ */
+export interface SpanDefinition<TData = any> {
+  /**
+   * Name of the tracer creating the spans
+   */
+  tracerName: string;
+  /**
+   * Version of the tracer creating the spans
+   */
+  tracerVersion?: string;
+  /**
+   * Tracer provider to get the tracer from, defaults to the global one
+   */
+  tracerProvider?: TracerProvider;
+  /**
+   * Span name, either a function or a template where `{data.path}` placeholders
+   * are replaced with values from the channel data, e.g. `'db.query {data.table}'`.
+   * Placeholders without a string, number or boolean value are rendered empty.
+   */
+  name: string | ((data: TData) => string);
+  /**
+   * Span kind, defaults to `INTERNAL`
+   */
+  kind?: SpanKind;
+  /**
+   * Span attributes taken from the channel data
+   */
+  attributes?: SpanAttributeMap<TData>;
+  /**
+   * Links added to the span when it is created
+   */
+  links?: Link[] | ((data: TData) => Link[] | undefined);
+}
+
+/**
+ * Options of the channel a span definition is bound to, applied when the span is started
+ */
+export interface SpanTransformOptions<TData> {
+  /**
+   * Name of the channel, logged with the errors thrown by the functions of the definition
+   */
+  channel?: string;
+  /**
+   * Gets the redaction rules applied to the attributes before the span is started
+   */
+  getRedaction?: () => RedactionOptions | undefined;
+  /**
+   * Gets the links of the `links` option, added to the links of the definition
+   */
+  getLinks?: (data: TData) => Link[];
+}
+
+const TEMPLATE_PLACEHOLDER = /\{data\.([\w$.]+)\}/g;
+
+/**
+ * Creates a `transformStart` function that builds spans from a declarative definition
+ */
+export function createSpanTransform<TData extends object>(
+  definition: SpanDefinition<TData>,
+  options: SpanTransformOptions<TData> = {},
+): (data: TData) => Span {
+  const { tracerName, tracerVersion, kind, attributes, links } = definition;
+
+  // Errors thrown by the functions of the definition are logged, a throw in `bindStore` crashes the process
+  return (data) => {
+    const tracer = (definition.tracerProvider ?? trace).getTracer(
+      tracerName,
+      tracerVersion,
+    );
+    const redaction = options.getRedaction?.();
+    const resolved = attributes
+      ? resolveAttributes(attributes, data, options.channel)
+      : undefined;
+
+    return tracer.startSpan(
+      resolveSpanName(
+        definition.name,
+        data,
+        options.channel,
+        options.channel ?? tracerName,
+      ),
+      {
+        kind,
+        attributes:
+          resolved && redaction
+            ? redactAttributes(resolved, redaction)
+            : resolved,
+        links: mergeLinks(
+          typeof links === 'function'
+            ? callHook(options.channel, 'definition.links', undefined, () =>
+                links(data),
+              )
+            : links,
+          options.getLinks?.(data),
+        ),
+      },
+      context.active(),
+    );
+  };
+}
+
+function mergeLinks(
+  links: Link[] | undefined,
+  extra: Link[] | undefined,
+): Link[] | undefined {
+  return extra?.length ? [...(links ?? []), ...extra] : links;
+}
+
+/**
+ * @param fallback - Name of the span when the name function throws
+ */
+function resolveSpanName<TData extends object>(
+  name: SpanDefinition<TData>['name'],
+  data: TData,
+  channel: string | undefined,
+  fallback: string,
+): string {
+  if (typeof name === 'function') {
+    return callHook(channel, 'definition.name', fallback, () => name(data));
+  }
+
+  return name
+    .replace(TEMPLATE_PLACEHOLDER, (_, path: string) => {
+      const value = getPath(data, path);
+
+      return isPrimitive(value) ? String(value) : '';
+    })
+    .trim();
+}
+
+/**
+ * Resolves attributes from the channel data, skipping the ones whose selector throws
+ *
+ * @param channel - Name of the channel, logged with the errors thrown by selectors
+ * @param event - The channel event the attributes are resolved on
+ */
+export function resolveAttributes<TData extends object>(
+  attributes: SpanAttributeMap<TData>,
+  data: TData,
+  channel?: string,
+  event?: string,
+): Attributes {
+  const resolved: Attributes = {};
+
+  for (const [name, source] of Object.entries(attributes)) {
+    const value =
+      typeof source === 'function'
+        ? callHook(
+            channel,
+            `attributes.${name}`,
+            undefined,
+            () => source(data),
+            event,
+          )
+        : (data as Record<string, unknown>)[source];
+
+    if (isAttributeValue(value)) {
+      resolved[name] = value;
+    }
+  }
+
+  return resolved;
+}
+
+function getPath(data: object, path: string): unknown {
+  let value: unknown = data;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+function isAttributeValue(value: unknown): value is AttributeValue {
+  if (Array.isArray(value)) {
+    return value.every(
+      (item) => item === null || item === undefined || isPrimitive(item),
+    );
+  }
+
+  return isPrimitive(value);
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean {
+  return (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  );
+}
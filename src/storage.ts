@@ -0,0 +1,150 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Context, ContextManager } from '@opentelemetry/api';
+
+/**
+ * How the AsyncLocalStorage bound to a channel was resolved
+ *
+ * - `storage`: an `AsyncLocalStorage` passed explicitly through options
+ * - `context-manager`: found on a `ContextManager` passed explicitly through options
+ * - `global-context-manager`: found on the globally registered OTel context manager
+ * - `none`: no AsyncLocalStorage could be resolved, context will not be propagated
+ */
+export type ContextStorageStrategy =
+  | 'storage'
+  | 'context-manager'
+  | 'global-context-manager'
+  | 'none';
+
+/**
+ * What to do when no AsyncLocalStorage is passed explicitly
+ *
+ * - `lazy`: bind now, and resolve the global context manager every time an operation starts.
+ *   Works with context managers registered or replaced after the channel was created.
+ * - `unbound`: resolve the global context manager once, return the channel without OTel context binding if none is found
+ * - `throw`: resolve the global context manager once, throw an error from `tracingChannel` if none is found
+ */
+export type ContextStorageFallback = 'lazy' | 'unbound' | 'throw';
+
+/**
+ * Options controlling which AsyncLocalStorage gets bound to a channel
+ */
+export interface ContextStorageOptions {
+  /**
+   * The AsyncLocalStorage holding the active OTel context, or the context manager owning it.
+   * Defaults to the globally registered OTel context manager.
+   */
+  storage?: AsyncLocalStorage<Context> | ContextManager;
+  /**
+   * What to do when no AsyncLocalStorage is passed explicitly, defaults to `lazy`.
+   * Explicitly passed context managers without an AsyncLocalStorage are treated as `unbound`, or `throw` if set.
+   */
+  fallback?: ContextStorageFallback;
+}
+
+/**
+ * Result of resolving the AsyncLocalStorage for a channel
+ */
+export interface ResolvedContextStorage {
+  storage?: AsyncLocalStorage<Context>;
+  strategy: ContextStorageStrategy;
+}
+
+// Key used by `@opentelemetry/api` to register its globals, shared by all copies with the same major version
+const OTEL_API_GLOBAL_KEY = Symbol.for('opentelemetry.js.api.1');
+
+/**
+ * Resolves the AsyncLocalStorage that holds the active OTel context.
+ *
+ * Context managers are supported when they keep the context in an `AsyncLocalStorage`,
+ * like `AsyncLocalStorageContextManager` and context managers extending it.
+ */
+export function resolveContextStorage(
+  storage?: AsyncLocalStorage<Context> | ContextManager,
+): ResolvedContextStorage {
+  if (storage instanceof AsyncLocalStorage) {
+    return { storage, strategy: 'storage' };
+  }
+
+  if (storage) {
+    const found = findAsyncLocalStorage(storage);
+
+    return found
+      ? { storage: found, strategy: 'context-manager' }
+      : { strategy: 'none' };
+  }
+
+  const found = findAsyncLocalStorage(getGlobalContextManager());
+
+  return found
+    ? { storage: found, strategy: 'global-context-manager' }
+    : { strategy: 'none' };
+}
+
+let cachedContextManager: ContextManager | undefined;
+let cachedStorage: AsyncLocalStorage<Context> | undefined;
+
+/**
+ * Stand-in for the AsyncLocalStorage of the global context manager, bound to channels in `lazy` mode.
+ * The storage is looked up every time a store is entered, so it picks up context managers
+ * registered after the channel was created, and replaced ones.
+ */
+export const globalContextStorage = {
+  /**
+   * The AsyncLocalStorage of the current global context manager, if any
+   */
+  resolve(): AsyncLocalStorage<Context> | undefined {
+    const contextManager = getGlobalContextManager();
+    if (contextManager !== cachedContextManager) {
+      cachedContextManager = contextManager;
+      cachedStorage = findAsyncLocalStorage(contextManager);
+    }
+
+    return cachedStorage;
+  },
+
+  run<R, TArgs extends any[]>(
+    store: Context,
+    fn: (...args: TArgs) => R,
+    ...args: TArgs
+  ): R {
+    const storage = this.resolve();
+
+    return storage ? storage.run(store, fn, ...args) : fn(...args);
+  },
+};
+
+/**
+ * Finds the AsyncLocalStorage a context manager keeps the active context in
+ */
+function findAsyncLocalStorage(
+  contextManager: unknown,
+): AsyncLocalStorage<Context> | undefined {
+  if (typeof contextManager !== 'object' || contextManager === null) {
+    return undefined;
+  }
+
+  // Well-known field of `AsyncLocalStorageContextManager`
+  const known = (contextManager as { _asyncLocalStorage?: unknown })
+    ._asyncLocalStorage;
+  if (known instanceof AsyncLocalStorage) {
+    return known;
+  }
+
+  // Custom or renamed implementations
+  for (const value of Object.values(contextManager)) {
+    if (value instanceof AsyncLocalStorage) {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The globally registered context manager, shared by all copies of `@opentelemetry/api` 1.x
+ */
+function getGlobalContextManager(): ContextManager | undefined {
+  return (
+    globalThis as { [OTEL_API_GLOBAL_KEY]?: { context?: ContextManager } }
+  )[OTEL_API_GLOBAL_KEY]?.context;
+}
@@ -0,0 +1,81 @@
+import type { AsyncLocalStorage } from 'node:async_hooks';
+import type { TracingChannel } from 'node:diagnostics_channel';
+import type { Span } from '@opentelemetry/api';
+import { log } from './logger';
+
+/**
+ * An `AsyncLocalStorage` bound to the channel together with the OTel storage,
+ * e.g. a request-scoped logger context
+ */
+export interface ChannelStore<TData = any, TValue = any> {
+  store: AsyncLocalStorage<TValue>;
+  /**
+   * Gets the store value during the operation, called on `start` after the span is created
+   *
+   * @param span - The span created by `transformStart`, if any
+   */
+  transform: (data: TData, span: Span | undefined) => TValue;
+  /**
+   * Identifies the store in `listChannels()`, defaults to the transform function name
+   */
+  name?: string;
+}
+
+/**
+ * Gets the name of a store listed by `listChannels()`
+ */
+export function getStoreName(store: ChannelStore): string {
+  return store.name ?? (store.transform.name || 'anonymous');
+}
+
+/**
+ * Binds extra stores to the `start` event, after the OTel storage so the span is created,
+ * and to `asyncStart` so their values are restored in `traceCallback` callbacks
+ *
+ * @param getSpan - Gets the span of an operation
+ * @returns Unbinds the stores
+ */
+export function bindChannelStores<TData extends object>(
+  channel: TracingChannel<TData, TData>,
+  name: string,
+  stores: ChannelStore<TData>[],
+  getSpan: (data: TData) => Span | undefined,
+): () => void {
+  const bindings = stores.map((binding) => {
+    // Values set on `start`, restored on `asyncStart`
+    const values = new WeakMap<object, unknown>();
+
+    function start(data: TData): unknown {
+      try {
+        const value = binding.transform(data, getSpan(data));
+        values.set(data, value);
+        return value;
+      } catch (error) {
+        log('error', `Store "${getStoreName(binding)}" transform failed`, {
+          channel: name,
+          event: 'start',
+          error,
+        });
+        return binding.store.getStore();
+      }
+    }
+
+    function asyncStart(data: TData): unknown {
+      return values.has(data) ? values.get(data) : binding.store.getStore();
+    }
+
+    // @ts-ignore - bindStore types don't account for AsyncLocalStorage of different type
+    channel.start.bindStore(binding.store, start);
+    // @ts-ignore - bindStore types don't account for AsyncLocalStorage of different type
+    channel.asyncStart.bindStore(binding.store, asyncStart);
+
+    return binding.store;
+  });
+
+  return () => {
+    for (const store of bindings) {
+      channel.start.unbindStore(store);
+      channel.asyncStart.unbindStore(store);
+    }
+  };
+}
@@ -0,0 +1,257 @@
+import {
+  context,
+  trace,
+  type AttributeValue,
+  type SpanKind,
+  type SpanStatusCode,
+  type Tracer,
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+
+/**
+ * Expected shape of a span and its children, fields left out are not checked
+ */
+export interface SpanTreeMatcher {
+  name: string;
+  kind?: SpanKind;
+  status?: SpanStatusCode;
+  /**
+   * Attributes the span must have, others are ignored
+   */
+  attributes?: Record<string, AttributeValue>;
+  /**
+   * The exact children of the span, in any order. Not checked if left out.
+   */
+  children?: SpanTreeMatcher[];
+}
+
+/**
+ * A finished span with its finished children
+ */
+export interface SpanTreeNode {
+  span: ReadableSpan;
+  children: SpanTreeNode[];
+}
+
+/**
+ * In-memory tracing set up by `setupTestTracing`
+ */
+export interface TestTracing {
+  tracerProvider: BasicTracerProvider;
+  tracer: Tracer;
+  exporter: InMemorySpanExporter;
+  /**
+   * The spans finished so far
+   */
+  getFinishedSpans(): ReadableSpan[];
+  /**
+   * The spans finished so far as trees, roots being spans whose parent wasn't captured
+   */
+  getSpanTrees(): SpanTreeNode[];
+  /**
+   * Throws if no finished span matches `expected`, including its children
+   */
+  expectSpanTree(expected: SpanTreeMatcher): void;
+  /**
+   * Clears the finished spans
+   */
+  reset(): void;
+  /**
+   * Unregisters the global context manager and tracer provider
+   */
+  teardown(): Promise<void>;
+}
+
+/**
+ * Registers an in-memory tracer provider and an AsyncLocalStorage context manager globally,
+ * capturing the spans created through tracing channels
+ *
+ * @example
+ * ```ts
+ * import { setupTestTracing } from 'otel-tracing-channel/testing';
+ *
+ * const tracing = setupTestTracing();
+ *
+ * await channel.tracePromise(() => query(), { table: 'users' });
+ *
+ * tracing.expectSpanTree({
+ *   name: 'db.query',
+ *   children: [{ name: 'db.connect' }],
+ * });
+ *
+ * await tracing.teardown();
+ * ```
+ */
+export function setupTestTracing(tracerName: string = 'test'): TestTracing {
+  const exporter = new InMemorySpanExporter();
+  const tracerProvider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const contextManager = new AsyncLocalStorageContextManager().enable();
+
+  context.setGlobalContextManager(contextManager);
+  trace.setGlobalTracerProvider(tracerProvider);
+
+  return {
+    tracerProvider,
+    tracer: tracerProvider.getTracer(tracerName),
+    exporter,
+    getFinishedSpans: () => exporter.getFinishedSpans(),
+    getSpanTrees: () => getSpanTrees(exporter.getFinishedSpans()),
+    expectSpanTree: (expected) =>
+      expectSpanTree(exporter.getFinishedSpans(), expected),
+    reset: () => exporter.reset(),
+    async teardown() {
+      context.disable();
+      trace.disable();
+      await tracerProvider.shutdown();
+    },
+  };
+}
+
+/**
+ * Arranges spans as trees, roots being spans whose parent isn't in `spans`.
+ * Siblings are ordered by start time.
+ */
+export function getSpanTrees(spans: ReadableSpan[]): SpanTreeNode[] {
+  const nodes = new Map<string, SpanTreeNode>();
+  for (const span of sortByStartTime(spans)) {
+    nodes.set(span.spanContext().spanId, { span, children: [] });
+  }
+
+  const roots: SpanTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parentId = node.span.parentSpanContext?.spanId;
+    const parent = parentId ? nodes.get(parentId) : undefined;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Throws if none of `spans` matches `expected`, including its children.
+ * Works with any test framework, the error message shows the captured trees.
+ */
+export function expectSpanTree(
+  spans: ReadableSpan[],
+  expected: SpanTreeMatcher,
+): void {
+  const trees = getSpanTrees(spans);
+  if (findNodes(trees).some((node) => matchesTree(node, expected))) {
+    return;
+  }
+
+  throw new Error(
+    [
+      '[otel-tracing-channel] No span tree matched the expected one.',
+      '',
+      'Expected:',
+      ...formatMatcher(expected, 1),
+      '',
+      'Captured:',
+      ...(trees.length > 0
+        ? trees.flatMap((tree) => formatNode(tree, 1))
+        : ['  (no finished spans)']),
+    ].join('\n'),
+  );
+}
+
+function matchesTree(node: SpanTreeNode, expected: SpanTreeMatcher): boolean {
+  const { span } = node;
+  if (
+    span.name !== expected.name ||
+    (expected.kind !== undefined && span.kind !== expected.kind) ||
+    (expected.status !== undefined && span.status.code !== expected.status)
+  ) {
+    return false;
+  }
+
+  for (const [key, value] of Object.entries(expected.attributes ?? {})) {
+    if (!isEqual(span.attributes[key], value)) {
+      return false;
+    }
+  }
+
+  if (!expected.children) {
+    return true;
+  }
+
+  return matchesChildren(node.children, expected.children);
+}
+
+/**
+ * Whether each expected child matches a distinct actual child, trying every assignment
+ */
+function matchesChildren(
+  actual: SpanTreeNode[],
+  expected: SpanTreeMatcher[],
+): boolean {
+  if (actual.length !== expected.length) {
+    return false;
+  }
+
+  const [first, ...rest] = expected;
+  if (!first) {
+    return true;
+  }
+
+  return actual.some(
+    (node, index) =>
+      matchesTree(node, first) &&
+      matchesChildren(actual.toSpliced(index, 1), rest),
+  );
+}
+
+function findNodes(trees: SpanTreeNode[]): SpanTreeNode[] {
+  return trees.flatMap((node) => [node, ...findNodes(node.children)]);
+}
+
+function sortByStartTime(spans: ReadableSpan[]): ReadableSpan[] {
+  return [...spans].sort(
+    (a, b) =>
+      a.startTime[0] - b.startTime[0] || a.startTime[1] - b.startTime[1],
+  );
+}
+
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    return (
+      actual.length === expected.length &&
+      actual.every((item, index) => item === expected[index])
+    );
+  }
+
+  return actual === expected;
+}
+
+function formatMatcher(matcher: SpanTreeMatcher, depth: number): string[] {
+  const { name, children, ...fields } = matcher;
+  const details =
+    Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+
+  return [
+    `${'  '.repeat(depth)}${name}${details}`,
+    ...(children ?? []).flatMap((child) => formatMatcher(child, depth + 1)),
+  ];
+}
+
+function formatNode(node: SpanTreeNode, depth: number): string[] {
+  const { name, kind, status, attributes } = node.span;
+
+  return [
+    `${'  '.repeat(depth)}${name} ${JSON.stringify({ kind, status: status.code, attributes })}`,
+    ...node.children.flatMap((child) => formatNode(child, depth + 1)),
+  ];
+}
@@ -1,21 +1,211 @@
 import { tracingChannel as nativeTracingChannel } from 'node:diagnostics_channel';
 import type { TracingChannel } from 'node:diagnostics_channel';
-import { context, trace, type Span } from '@opentelemetry/api';
-import { debugLog, isSpan } from './utils';
+import type { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  context,
+  propagation,
+  trace,
+  type Baggage,
+  type Context,
+  type Span,
+} from '@opentelemetry/api';
+import { callHook, isContext, isSpan } from './utils';
+import { getSpanFields, isEnabled, log } from './logger';
+import {
+  createSpanLifecycleSubscribers,
+  createTransformEndSubscribers,
+  type SpanLifecycleOptions,
+  type TracingChannelTransformEnd,
+} from './lifecycle';
+import { createSpanTransform, type SpanDefinition } from './spanDefinition';
+import {
+  isChannelContract,
+  type ChannelContract,
+  type ChannelContractData,
+} from './contract';
+import {
+  extractContext,
+  type CarrierOptions,
+  type ContextCarrier,
+} from './propagation';
+import {
+  CHANNEL_SPAN_KEY,
+  createPhaseSubscribers,
+  type ChannelPhaseMode,
+} from './phases';
+import { addSpanLinks, resolveLinks, type ChannelLink } from './links';
+import {
+  redactSpan,
+  resolveRedaction,
+  type RedactionOptions,
+} from './redaction';
+import { bindChannelStores, getStoreName, type ChannelStore } from './stores';
+import { createWatchdogSubscribers, type WatchdogOptions } from './watchdog';
+import {
+  createMetricsSubscribers,
+  type ChannelMetricsOptions,
+} from './metrics';
+import {
+  getTracingChannelName,
+  hasEventSubscribers,
+  registry,
+  subscribeInternal,
+  type ChannelConflictPolicy,
+  type ChannelLayer,
+  type ChannelRegistration,
+} from './registry';
+import {
+  globalContextStorage,
+  resolveContextStorage,
+  type ContextStorageOptions,
+  type ContextStorageStrategy,
+} from './storage';
 
 /**
- * Transform function that creates a span from the channel data
+ * Transform function that creates a span from the channel data, see `TracingChannelTransformResult`
  */
-export type TracingChannelTransform<TData = any> = (data: TData) => Span;
+export type TracingChannelTransform<TData = any> = (
+  data: TData,
+) => TracingChannelTransformResult;
 
-type WithSpan<TData = any> = TData & { span?: Span };
+/**
+ * What `transformStart` may return, the context it produces is active during the operation:
+ *
+ * - `Span`: set as the active span and on `data.span`. Non-recording spans with valid IDs are supported,
+ *   so children of sampled-out operations still inherit the trace ID
+ * - `Context`: used as is. Its span, if it differs from the parent one, is set on `data.span`
+ * - `{ span?, baggage?, context? }`: `context` (the parent context by default) with `baggage` and `span` set on it
+ * - `undefined`: the parent context passes through
+ */
+export type TracingChannelTransformResult =
+  | Span
+  | Context
+  | { span?: Span; baggage?: Baggage; context?: Context }
+  | undefined;
+
+type WithSpan<TData = any> = TData & { span?: Span; otelContext?: Context };
+
+/**
+ * Teardown methods added to channels returned by `tracingChannel`
+ */
+export interface TracingChannelHandle extends Disposable {
+  /**
+   * Unbinds the OTel storage and removes the subscribers added by `tracingChannel`.
+   * Safe to call more than once.
+   */
+  unbind(): void;
+}
+
+/**
+ * A tracing channel returned by `tracingChannel`, with OTel context bound.
+ * Each call returns its own handle over the channel, so `unbind()` only removes its own binding.
+ */
+export type BoundTracingChannel<TData = any> = TracingChannel<
+  WithSpan<TData>,
+  WithSpan<TData>
+> &
+  TracingChannelHandle;
+
+// Contexts created on `start`, restored around `traceCallback` callbacks on `asyncStart`
+const operationContexts = new WeakMap<object, Context>();
+
+// How the OTel storage is resolved for each channel returned by `tracingChannel`
+const channelStrategies = new WeakMap<
+  object,
+  () => ContextStorageStrategy | undefined
+>();
+
+/**
+ * Options for `tracingChannel`
+ */
+export interface TracingChannelOptions<TData = any>
+  extends SpanLifecycleOptions<TData>,
+    ContextStorageOptions,
+    CarrierOptions {
+  /**
+   * Called once with the span created by `transformStart` when the operation finishes, e.g. to set attributes
+   * from `data.result`, rename the span or set its status. Runs before `autoEnd` ends the span,
+   * and errors it throws are logged without affecting the operation.
+   */
+  transformEnd?: TracingChannelTransformEnd<TData>;
+  /**
+   * Subscribe internally to end `data.span` exactly once when the operation finishes,
+   * recording errors and setting the `ERROR` status along the way.
+   */
+  autoEnd?: boolean;
+  /**
+   * What to do when the channel name is already bound by `tracingChannel`, defaults to `replace`
+   */
+  onConflict?: ChannelConflictPolicy;
+  /**
+   * Identifies who bound the channel in `listChannels()`, e.g. a package name
+   */
+  owner?: string;
+  /**
+   * Return `false` to skip creating a span for an operation, e.g. for health checks
+   */
+  shouldTrace?: (data: TData) => boolean;
+  /**
+   * Head-sampling hook deciding whether to create a span for an operation, given its parent context
+   */
+  sampler?: ChannelSampler<TData>;
+  /**
+   * Only create spans while something subscribes to the `end`, `asyncEnd` or `error` events,
+   * so spans aren't created when nothing would end them. `autoEnd` counts, the subscribers added
+   * for `phases`, `transformEnd`, `watchdog` and `metrics` don't, and neither do yours on an event
+   * they subscribe to, since Node only tells whether an event has subscribers.
+   */
+  requireSubscribers?: boolean;
+  /**
+   * Record duration, call and error metrics for every operation, including the ones without a span
+   */
+  metrics?: boolean | ChannelMetricsOptions<TData>;
+  /**
+   * Gets the carrier written by `injectContext` from the channel data, e.g. of a job sent to a worker thread.
+   * The remote span becomes the parent of the span created by `transformStart`.
+   */
+  carrier?: (data: TData) => ContextCarrier | undefined;
+  /**
+   * Gets the operations the span is linked to from the channel data, e.g. the callers of a batched
+   * operation with links captured by `captureLink` when they queued their items.
+   * Invalid and duplicate span contexts are ignored.
+   */
+  links?: (data: TData) => Iterable<ChannelLink> | undefined;
+  /**
+   * Redacts the attributes, exception messages and status descriptions of the spans created by `transformStart`,
+   * merged with the rules set by `setRedaction`. `false` disables redaction for the channel.
+   */
+  redaction?: RedactionOptions | false;
+  /**
+   * Record the `end`, `asyncStart` and `asyncEnd` phases of each operation on its span, as events or durations
+   */
+  phases?: ChannelPhaseMode;
+  /**
+   * Flag spans still open after a timeout, and spans whose channel data was garbage-collected before they ended
+   */
+  watchdog?: WatchdogOptions;
+  /**
+   * Extra `AsyncLocalStorage` stores bound together with the OTel storage, e.g. a logger context
+   * holding the trace and span IDs. Their values are set from the span created by `transformStart`.
+   */
+  stores?: ChannelStore<WithSpan<TData>>[];
+}
+
+/**
+ * Head-sampling hook deciding whether to create a span for an operation
+ */
+export type ChannelSampler<TData = any> = (
+  data: TData,
+  parentContext: Context,
+) => boolean;
 
 /**
  * Creates a new tracing channel with proper context propagation
  *
- * @param channelNameOrInstance - Either a channel name string or an existing TracingChannel instance.
- * @param transformStart - Function that creates an OpenTelemetry span from the channel data.
- * @returns The tracing channel with OTel context bound
+ * @param channelNameOrInstance - Either a channel name string, an existing TracingChannel instance, or a contract defined with `defineTracingChannel`.
+ * @param transformStart - Function that creates an OpenTelemetry span from the channel data, or a declarative span definition.
+ * @param options - Optional behavior, like automatic span lifecycle management or the storage to bind.
+ * @returns The tracing channel with OTel context bound, which can be unbound with `unbind()` or a `using` declaration
  *
  * @example
  * ```ts
@@ -50,59 +240,578 @@ type WithSpan<TData = any> = TData & { span?: Span };
  */
 export function tracingChannel<TData extends object = any>(
   channelNameOrInstance: string | TracingChannel<TData, TData>,
-  transformStart: TracingChannelTransform<TData>,
-): TracingChannel<WithSpan<TData>, WithSpan<TData>> {
+  transformStart: TracingChannelTransform<TData> | SpanDefinition<TData>,
+  options?: TracingChannelOptions<TData>,
+): BoundTracingChannel<TData>;
+/**
+ * Binds the tracing channel of a contract defined with `defineTracingChannel`,
+ * typing the channel data with `data.result` and `data.error`
+ */
+export function tracingChannel<TData extends object, TResult>(
+  contract: ChannelContract<TData, TResult>,
+  transformStart:
+    | TracingChannelTransform<ChannelContractData<TData, TResult>>
+    | SpanDefinition<ChannelContractData<TData, TResult>>,
+  options?: TracingChannelOptions<ChannelContractData<TData, TResult>>,
+): BoundTracingChannel<ChannelContractData<TData, TResult>>;
+export function tracingChannel<TData extends object = any>(
+  channelNameOrInstance:
+    | string
+    | TracingChannel<TData, TData>
+    | ChannelContract<TData, unknown>,
+  transformStart: TracingChannelTransform<TData> | SpanDefinition<TData>,
+  options: TracingChannelOptions<TData> = {},
+): BoundTracingChannel<TData> {
   // Get or create the channel
   const channel =
     typeof channelNameOrInstance === 'string'
       ? nativeTracingChannel<WithSpan<TData>, WithSpan<TData>>(
           channelNameOrInstance,
         )
-      : channelNameOrInstance;
+      : isChannelContract(channelNameOrInstance)
+        ? (channelNameOrInstance.channel as TracingChannel<TData, TData>)
+        : channelNameOrInstance;
+  const name =
+    typeof channelNameOrInstance === 'string'
+      ? channelNameOrInstance
+      : isChannelContract(channelNameOrInstance)
+        ? channelNameOrInstance.name
+        : getTracingChannelName(channel);
 
-  try {
-    // Get OTel's internal AsyncLocalStorage
-    const contextManager = (context as any)._getContextManager();
+  const getLinks = options.links
+    ? (data: TData) =>
+        callHook(name, 'links', [], () => resolveLinks(options.links?.(data)))
+    : undefined;
+
+  const layer: ChannelLayer = {
+    owner: options.owner,
+    transformName:
+      typeof transformStart === 'function'
+        ? transformStart.name || 'anonymous'
+        : transformStart.tracerName,
+    transform:
+      typeof transformStart === 'function'
+        ? transformStart
+        : createSpanTransform(transformStart, {
+            channel: name,
+            getRedaction: () => resolveRedaction(options.redaction),
+            getLinks,
+          }),
+    getParentContext: options.carrier
+      ? (data, activeContext) =>
+          callHook(name, 'carrier', activeContext, () =>
+            extractContext(options.carrier?.(data), activeContext, options),
+          )
+      : undefined,
+    // Span definitions start their spans with the links, so samplers see them
+    getLinks: typeof transformStart === 'function' ? getLinks : undefined,
+    redaction: options.redaction,
+    redactsStartAttributes: typeof transformStart !== 'function',
+    requireSubscribers: options.requireSubscribers ?? false,
+    shouldTrace: (data, parentContext) =>
+      callHook(
+        name,
+        'shouldTrace',
+        true,
+        () => options.shouldTrace?.(data) ?? true,
+      ) &&
+      callHook(
+        name,
+        'sampler',
+        true,
+        () => options.sampler?.(data, parentContext) ?? true,
+      ),
+    autoEnd: options.autoEnd ?? false,
+    spans: new WeakMap(),
+    stores: options.stores?.map(getStoreName) ?? [],
+    teardowns: [],
+  };
 
-    if (!contextManager?._asyncLocalStorage) {
-      debugLog('Could not access OpenTelemetry AsyncLocalStorage');
-      debugLog('Context propagation will NOT work!');
-      return channel;
+  const existing = registry.get(name);
+  if (existing) {
+    const policy = options.onConflict ?? 'replace';
+    log(
+      'debug',
+      `Tracing channel "${name}" is already bound, applying the "${policy}" policy`,
+      { channel: name, event: 'bind' },
+    );
+
+    switch (policy) {
+      case 'reuse': {
+        // The binding belongs to its owner, unbinding this handle leaves it in place
+        const handle = createHandle<TData>(existing.channel, () => {
+          channelStrategies.delete(handle);
+        });
+        channelStrategies.set(handle, () =>
+          registry.get(name) === existing ? existing.strategy() : undefined,
+        );
+        return handle;
+      }
+      case 'error':
+        throw new Error(
+          `[otel-tracing-channel] Tracing channel "${name}" is already bound by ${describeBinding(existing)}`,
+        );
+      case 'compose':
+        return addLayer(existing, channel, layer, options);
+      case 'replace':
+        if (!existing.layers.every((l) => isSameBinding(l, layer))) {
+          log(
+            'warn',
+            `Tracing channel "${name}" was bound by ${describeBinding(existing)}, replacing it. Set "onConflict" to keep both bindings or fail instead`,
+            { channel: name, event: 'bind' },
+          );
+        }
+        existing.unbind();
+        break;
     }
+  }
 
-    const otelStorage = contextManager._asyncLocalStorage;
-    debugLog('Found OpenTelemetry AsyncLocalStorage');
+  let otelStorage: AsyncLocalStorage<Context> | typeof globalContextStorage;
+  let strategy: () => ContextStorageStrategy;
+  const lazy = !options.storage && (options.fallback ?? 'lazy') === 'lazy';
 
-    // Bind the start channel with the transform
-    // @ts-ignore - bindStore types don't account for AsyncLocalStorage of different type
-    channel.start.bindStore(otelStorage, (data: WithSpan<TData>) => {
-      debugLog('Creating span in bindStore transform');
+  if (lazy) {
+    // Resolved every time an operation starts, so import order doesn't matter
+    otelStorage = globalContextStorage;
+    strategy = () =>
+      globalContextStorage.resolve() ? 'global-context-manager' : 'none';
+    log('debug', 'Binding OpenTelemetry AsyncLocalStorage lazily', {
+      channel: name,
+      event: 'bind',
+    });
+  } else {
+    const resolved = resolveContextStorage(options.storage);
+    strategy = () => resolved.strategy;
+
+    if (!resolved.storage) {
+      if (options.fallback === 'throw') {
+        throw new Error(
+          `[otel-tracing-channel] Could not resolve an OpenTelemetry AsyncLocalStorage for the tracing channel`,
+        );
+      }
+
+      log(
+        'warn',
+        'Could not access OpenTelemetry AsyncLocalStorage, context propagation will NOT work!',
+        { channel: name, event: 'bind' },
+      );
+      const handle = createHandle<TData>(channel, () =>
+        channelStrategies.delete(handle),
+      );
+      channelStrategies.set(handle, strategy);
+      return handle;
+    }
+
+    otelStorage = resolved.storage;
+    log(
+      'debug',
+      `Found OpenTelemetry AsyncLocalStorage (strategy: ${resolved.strategy})`,
+      { channel: name, event: 'bind' },
+    );
+  }
+
+  // Creates the spans of an operation and returns the context stored in AsyncLocalStorage
+  const getStartContext = (data: WithSpan<TData>): Context => {
+    const debug = isEnabled('debug', name);
+
+    if (lazy && !globalContextStorage.resolve()) {
+      if (debug) {
+        log(
+          'debug',
+          'No OpenTelemetry AsyncLocalStorage registered yet, skipping span creation',
+          { channel: name, event: 'start' },
+        );
+      }
+      return context.active();
+    }
+
+    const activeContext = context.active();
+    let ctx = activeContext;
+
+    // Composed transforms run in order, each with the previous span active
+    for (const layer of registration.layers) {
+      ctx = layer.getParentContext?.(data, ctx) ?? ctx;
+
+      if (
+        (layer.requireSubscribers && !hasEventSubscribers(registration)) ||
+        !layer.shouldTrace(data, ctx)
+      ) {
+        if (debug) {
+          log(
+            'debug',
+            'Skipping span creation, the parent context passes through',
+            { channel: name, event: 'start' },
+          );
+        }
+        continue;
+      }
+
+      if (debug) {
+        log('debug', 'Creating span in bindStore transform', {
+          channel: name,
+          event: 'start',
+        });
+      }
 
       // Call the user's transform to create the span
-      const span = transformStart(data);
-      if (!isSpan(span)) {
-        debugLog(
+      const parentContext = ctx;
+      const result =
+        ctx === activeContext
+          ? layer.transform(data)
+          : context.with(ctx, () => layer.transform(data));
+
+      const resultContext = resolveTransformResult(result, ctx);
+      if (!resultContext) {
+        log(
+          'warn',
           `"transformStart" returned a non-span value, this may break child span relationship`,
+          { channel: name, event: 'start' },
         );
-        // Return the current context without modification
-        return context.active();
+        // Leave the current context without modification
+        continue;
+      }
+
+      ctx = resultContext;
+
+      // Store a new span on data so event handlers can access it
+      let span = trace.getSpan(ctx);
+      if (span && span !== trace.getSpan(parentContext)) {
+        const redaction = resolveRedaction(layer.redaction);
+        if (redaction && span.isRecording()) {
+          span = redactSpan(
+            span,
+            redaction,
+            name,
+            layer.redactsStartAttributes,
+          );
+          ctx = trace.setSpan(ctx, span);
+        }
+
+        layer.spans.set(data, span);
+        data.span = span;
+
+        const links = layer.getLinks?.(data);
+        if (links?.length) {
+          addSpanLinks(span, links, name);
+        }
+
+        // For `addChannelEvent`, even when child spans are active
+        ctx = ctx.setValue(CHANNEL_SPAN_KEY, span);
+      }
+    }
+
+    // This is what gets stored in AsyncLocalStorage
+    operationContexts.set(data, ctx);
+    data.otelContext = ctx;
+    if (debug) {
+      log('debug', 'Returning context to AsyncLocalStorage', {
+        channel: name,
+        event: 'start',
+        ...getSpanFields(trace.getSpan(ctx)),
+      });
+    }
+    return ctx;
+  };
+
+  const registration: ChannelRegistration = {
+    name,
+    channel,
+    layers: [],
+    internalSubscribers: { end: 0, asyncEnd: 0, error: 0 },
+    strategy,
+    rebindStorage() {
+      // @ts-ignore - unbindStore types don't account for AsyncLocalStorage of different type
+      channel.start.unbindStore(otelStorage);
+      // @ts-ignore - bindStore types don't account for AsyncLocalStorage of different type
+      channel.start.bindStore(otelStorage, getStartContext);
+    },
+    unbind() {
+      for (const layer of registration.layers.splice(0)) {
+        runTeardowns(layer);
       }
 
-      // Store the span on data so event handlers can access it
-      data.span = span;
+      // @ts-ignore - unbindStore types don't account for AsyncLocalStorage of different type
+      channel.start.unbindStore(otelStorage);
+      // @ts-ignore - unbindStore types don't account for AsyncLocalStorage of different type
+      channel.asyncStart.unbindStore(otelStorage);
+
+      if (registry.get(name) === registration) {
+        registry.delete(name);
+      }
+      log('debug', 'OTel context unbound from tracing channel', {
+        channel: name,
+        event: 'unbind',
+      });
+    },
+  };
+
+  try {
+    // Bind the start channel with the transform
+    // @ts-ignore - bindStore types don't account for AsyncLocalStorage of different type
+    channel.start.bindStore(otelStorage, getStartContext);
+
+    // `traceCallback` runs the callback with `asyncStart.runStores`, so binding it as well
+    // keeps the span active inside the callback no matter where it was invoked from
+    // @ts-ignore - bindStore types don't account for AsyncLocalStorage of different type
+    channel.asyncStart.bindStore(otelStorage, (data: WithSpan<TData>) => {
+      return operationContexts.get(data) ?? context.active();
+    });
+
+    log('debug', 'OTel context bound to tracing channel', {
+      channel: name,
+      event: 'bind',
+    });
+  } catch (error) {
+    log('error', 'Error setting up OTel context binding', {
+      channel: name,
+      event: 'bind',
+      error,
+    });
+  }
+
+  registry.set(name, registration);
 
-      // Wrap the span in a context and return it
-      // This is what gets stored in AsyncLocalStorage
-      const ctx = trace.setSpan(context.active(), span);
+  return addLayer(registration, channel, layer, options);
+}
+
+/**
+ * Applies the value returned by `transformStart` to the parent context
+ *
+ * @returns The context of the operation, or `undefined` if the value isn't supported
+ */
+function resolveTransformResult(
+  result: unknown,
+  parentContext: Context,
+): Context | undefined {
+  if (result === undefined) {
+    return parentContext;
+  }
+
+  if (isSpan(result)) {
+    return trace.setSpan(parentContext, result);
+  }
+
+  if (isContext(result)) {
+    return result;
+  }
+
+  if (typeof result !== 'object' || result === null) {
+    return undefined;
+  }
+
+  const {
+    span,
+    baggage,
+    context: resultContext,
+  } = result as {
+    span?: unknown;
+    baggage?: Baggage;
+    context?: unknown;
+  };
+  if (
+    span === undefined &&
+    baggage === undefined &&
+    resultContext === undefined
+  ) {
+    return undefined;
+  }
 
-      debugLog('Returning context to AsyncLocalStorage');
-      return ctx;
+  if (
+    (span !== undefined && !isSpan(span)) ||
+    (resultContext !== undefined && !isContext(resultContext))
+  ) {
+    return undefined;
+  }
+
+  let ctx = resultContext ?? parentContext;
+  if (baggage) {
+    ctx = propagation.setBaggage(ctx, baggage);
+  }
+  if (span) {
+    ctx = trace.setSpan(ctx, span);
+  }
+
+  return ctx;
+}
+
+/**
+ * Adds a transform to a binding, returning the channel with a handle removing it again
+ */
+function addLayer<TData extends object>(
+  registration: ChannelRegistration,
+  channel: TracingChannel<WithSpan<TData>, WithSpan<TData>>,
+  layer: ChannelLayer,
+  options: TracingChannelOptions<TData>,
+): BoundTracingChannel<TData> {
+  registration.layers.push(layer);
+
+  if (options.stores?.length) {
+    layer.teardowns.push(
+      bindChannelStores(channel, registration.name, options.stores, (data) =>
+        layer.spans.get(data),
+      ),
+    );
+    // Stores bound last run first, the OTel storage must create the span before the extra stores run
+    registration.rebindStorage();
+    log('debug', 'Extra stores bound to tracing channel', {
+      channel: registration.name,
+      event: 'bind',
     });
+  }
+
+  // Subscribed first, so phases are recorded before the span is ended
+  if (options.phases) {
+    const subscribers = createPhaseSubscribers<WithSpan<TData>>(
+      options.phases,
+      (data) => layer.spans.get(data),
+    );
+    layer.teardowns.push(subscribeInternal(registration, channel, subscribers));
+    log('debug', 'Phase subscribers attached to tracing channel', {
+      channel: registration.name,
+      event: 'bind',
+    });
+  }
 
-    debugLog('OTel context bound to tracing channel');
-  } catch (err) {
-    debugLog('Error setting up OTel context binding:', err);
+  // Subscribed before `autoEnd`, so the span is enriched before it is ended
+  if (options.transformEnd) {
+    const subscribers = createTransformEndSubscribers<WithSpan<TData>>(
+      registration.name,
+      options.transformEnd,
+      (data) => layer.spans.get(data),
+    );
+    layer.teardowns.push(subscribeInternal(registration, channel, subscribers));
+    log('debug', 'transformEnd subscribers attached to tracing channel', {
+      channel: registration.name,
+      event: 'bind',
+    });
+  }
+
+  if (options.autoEnd) {
+    const subscribers = createSpanLifecycleSubscribers<TData>(
+      options,
+      (data) => layer.spans.get(data),
+      registration.name,
+    );
+    channel.subscribe(subscribers);
+    layer.teardowns.push(() => channel.unsubscribe(subscribers));
+    log('debug', 'Span lifecycle subscribers attached to tracing channel', {
+      channel: registration.name,
+      event: 'bind',
+    });
   }
 
-  return channel;
+  if (options.watchdog) {
+    const subscribers = createWatchdogSubscribers<WithSpan<TData>>(
+      registration.name,
+      options.watchdog,
+      (data) => layer.spans.get(data),
+    );
+    layer.teardowns.push(subscribeInternal(registration, channel, subscribers));
+    log('debug', 'Watchdog subscribers attached to tracing channel', {
+      channel: registration.name,
+      event: 'bind',
+    });
+  }
+
+  if (options.metrics) {
+    const subscribers = createMetricsSubscribers<WithSpan<TData>>(
+      registration.name,
+      options.metrics === true ? {} : options.metrics,
+      options.classifyError,
+    );
+    layer.teardowns.push(subscribeInternal(registration, channel, subscribers));
+    log('debug', 'Metrics subscribers attached to tracing channel', {
+      channel: registration.name,
+      event: 'bind',
+    });
+  }
+
+  const handle = createHandle<TData>(channel, () => {
+    const index = registration.layers.indexOf(layer);
+    if (index === -1) {
+      return;
+    }
+
+    registration.layers.splice(index, 1);
+    runTeardowns(layer);
+
+    // The storage stays bound as long as a composed transform is left
+    if (registration.layers.length === 0) {
+      registration.unbind();
+    }
+  });
+
+  channelStrategies.set(handle, () =>
+    registration.layers.includes(layer) ? registration.strategy() : undefined,
+  );
+
+  return handle;
+}
+
+function describeBinding(registration: ChannelRegistration): string {
+  return registration.layers.map((l) => l.owner ?? l.transformName).join(', ');
+}
+
+/**
+ * Whether two layers come from the same binding, e.g. bound again on reload: same owner, or same transform without owners
+ */
+function isSameBinding(a: ChannelLayer, b: ChannelLayer): boolean {
+  return a.owner !== undefined || b.owner !== undefined
+    ? a.owner === b.owner
+    : a.transform === b.transform;
+}
+
+function runTeardowns(layer: ChannelLayer): void {
+  for (const teardown of layer.teardowns.splice(0)) {
+    teardown();
+  }
+}
+
+/**
+ * Creates a handle over the channel with its own `unbind` and `Symbol.dispose` methods, running `teardown` once.
+ * The channel itself is left untouched, since other bindings may share it.
+ */
+function createHandle<TData>(
+  channel: TracingChannel<any, any>,
+  teardown: () => void,
+): BoundTracingChannel<TData> {
+  let unbound = false;
+  function unbind(): void {
+    if (unbound) {
+      return;
+    }
+
+    unbound = true;
+    teardown();
+  }
+
+  return new Proxy(channel, {
+    get(target, property) {
+      if (property === 'unbind' || property === Symbol.dispose) {
+        return unbind;
+      }
+
+      return Reflect.get(target, property) as unknown;
+    },
+    has(target, property) {
+      return (
+        property === 'unbind' ||
+        property === Symbol.dispose ||
+        Reflect.has(target, property)
+      );
+    },
+  }) as BoundTracingChannel<TData>;
+}
+
+/**
+ * Reports how the OTel storage is resolved for a channel returned by `tracingChannel`,
+ * e.g. to assert that context propagation is set up in startup health checks.
+ * For lazily bound channels, this reflects the global context manager registered right now.
+ *
+ * @returns The strategy, or `undefined` if the channel was not created by `tracingChannel` or was unbound
+ */
+export function getContextStorageStrategy(
+  channel: TracingChannel<any, any>,
+): ContextStorageStrategy | undefined {
+  return channelStrategies.get(channel)?.();
 }
@@ -1,5 +1,6 @@
-import type { Span } from '@opentelemetry/api';
+import type { Context, Span } from '@opentelemetry/api';
 import { INVALID_TRACEID, INVALID_SPANID } from '@opentelemetry/api';
+import { log, setLogLevel } from './logger';
 
 /**
  * Type guard to check if an object is a Span
@@ -28,22 +29,52 @@ export function isSpan(value: unknown): value is Span {
   );
 }
 
-// Debug logging state
-let debugEnabled = false;
+/**
+ * Type guard to check if an object is an OTel Context
+ */
+export function isContext(value: unknown): value is Context {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Partial<Context>).getValue === 'function' &&
+    typeof (value as Partial<Context>).setValue === 'function' &&
+    typeof (value as Partial<Context>).deleteValue === 'function'
+  );
+}
 
 /**
- * Enable debug logging
+ * Calls an option of a channel from a channel event, where a throw would crash the process
+ *
+ * @param option - Name of the option in the logged error, e.g. `carrier`
+ * @param event - The channel event the option is called on
+ * @returns The value returned by `fn`, or `fallback` if it throws
+ */
+export function callHook<T>(
+  channel: string | undefined,
+  option: string,
+  fallback: T,
+  fn: () => T,
+  event: string = 'start',
+): T {
+  try {
+    return fn();
+  } catch (error) {
+    log('error', `"${option}" threw an error`, { channel, event, error });
+    return fallback;
+  }
+}
+
+/**
+ * Enable debug logging, same as `setLogLevel('debug')`. Disabling it restores the default `warn` level.
  */
 export function setDebugFlag(debug: boolean): void {
-  debugEnabled = debug;
+  setLogLevel(debug ? 'debug' : 'warn');
 }
 
 /**
  * Conditionally log a debug message if debug is enabled
  */
 export function debugLog(...args: unknown[]): void {
-  if (debugEnabled) {
-    // eslint-disable-next-line no-console
-    console.log('[otel-tracing-channel]', ...args);
-  }
+  const [message, ...rest] = args;
+  log('debug', String(message), {}, rest);
 }
@@ -0,0 +1,159 @@
+import type { TracingChannelSubscribers } from 'node:diagnostics_channel';
+import { SpanStatusCode, type Span } from '@opentelemetry/api';
+import { createTerminalSubscribers } from './lifecycle';
+import { getSpanFields, log } from './logger';
+
+/**
+ * Options for detecting spans that are never ended
+ */
+export interface WatchdogOptions {
+  /**
+   * Milliseconds after which a span still open is flagged
+   */
+  timeout: number;
+  /**
+   * What to do with flagged spans, defaults to `warn`
+   *
+   * - `warn`: emit a process warning and leave the span open
+   * - `end`: end the span with the `ERROR` status and a `timeout` description
+   */
+  action?: 'warn' | 'end';
+}
+
+/**
+ * A span created by a channel with a watchdog, which hasn't ended yet
+ */
+export interface OpenSpanInfo {
+  /**
+   * Name of the channel that created the span
+   */
+  channel: string;
+  span: Span;
+  /**
+   * When the operation started, in milliseconds since the epoch
+   */
+  startTime: number;
+}
+
+interface WatchedSpan extends OpenSpanInfo {
+  options: WatchdogOptions;
+  timer: NodeJS.Timeout;
+}
+
+const WARNING_CODE = 'OTEL_TRACING_CHANNEL_OPEN_SPAN';
+
+// Spans watched by all channels, removed once they are found ended when their operation finishes
+const openSpans = new Map<Span, WatchedSpan>();
+
+// Reports spans whose channel data was garbage-collected while they were still open
+const collectedData = new FinalizationRegistry<Span>((span) => {
+  const watched = openSpans.get(span);
+  if (!watched) {
+    return;
+  }
+
+  forget(watched);
+  if (span.isRecording()) {
+    // Always reported, ending the span doesn't fix what dropped it
+    const message = flag(watched, 'its channel data was garbage-collected');
+    process.emitWarning(message, { code: WARNING_CODE });
+  }
+});
+
+/**
+ * Lists the spans created by channels with a watchdog that haven't ended yet, oldest first
+ */
+export function getOpenSpans(): OpenSpanInfo[] {
+  const open: OpenSpanInfo[] = [];
+  for (const watched of openSpans.values()) {
+    if (watched.span.isRecording()) {
+      const { channel, span, startTime } = watched;
+      open.push({ channel, span, startTime });
+    } else {
+      forget(watched);
+    }
+  }
+
+  return open;
+}
+
+/**
+ * Builds subscribers watching the span of each operation until it ends. Subscribed after `autoEnd`,
+ * so spans ended with their operation are forgotten right away.
+ *
+ * @param getSpan - Gets the span of an operation
+ */
+export function createWatchdogSubscribers<TData extends object>(
+  channel: string,
+  options: WatchdogOptions,
+  getSpan: (data: TData) => Span | undefined,
+): TracingChannelSubscribers<TData> {
+  return createTerminalSubscribers<TData>({
+    start(data) {
+      const span = getSpan(data);
+      // Non-recording spans are never exported, so they can't leak
+      if (!span?.isRecording() || openSpans.has(span)) {
+        return;
+      }
+
+      const watched: WatchedSpan = {
+        channel,
+        span,
+        startTime: Date.now(),
+        options,
+        timer: setTimeout(() => {
+          forget(watched);
+          if (span.isRecording()) {
+            const message = flag(
+              watched,
+              `it is still open after ${options.timeout}ms`,
+            );
+            if (options.action !== 'end') {
+              process.emitWarning(message, { code: WARNING_CODE });
+            }
+          }
+        }, options.timeout).unref(),
+      };
+
+      openSpans.set(span, watched);
+      collectedData.register(data, span, watched);
+    },
+    terminal(data) {
+      const span = getSpan(data);
+      const watched = span && openSpans.get(span);
+      // Spans ended later, e.g. by subscribers of their own, are forgotten by the timer
+      if (watched && !span.isRecording()) {
+        forget(watched);
+      }
+    },
+  }) as TracingChannelSubscribers<TData>;
+}
+
+function forget(watched: WatchedSpan): void {
+  clearTimeout(watched.timer);
+  collectedData.unregister(watched);
+  openSpans.delete(watched.span);
+}
+
+/**
+ * Ends a leaked span if the `end` action is set
+ *
+ * @returns The message describing the leak
+ */
+function flag(watched: WatchedSpan, reason: string): string {
+  const { span, channel, options } = watched;
+  const name = (span as { name?: unknown }).name;
+  const message = `Span ${typeof name === 'string' ? `"${name}" ` : ''}of tracing channel "${channel}" was not ended, ${reason}`;
+
+  if (options.action === 'end') {
+    log('debug', `${message}, ending it`, {
+      channel,
+      event: 'watchdog',
+      ...getSpanFields(span),
+    });
+    span.setStatus({ code: SpanStatusCode.ERROR, message: 'timeout' });
+    span.end();
+  }
+
+  return message;
+}
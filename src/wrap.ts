@@ -0,0 +1,200 @@
+import type { TracingChannel } from 'node:diagnostics_channel';
+import { types } from 'node:util';
+
+/**
+ * Maps the arguments and receiver of a wrapped function call to the channel data
+ */
+export type TraceDataMapper<TFn extends (...args: any[]) => any, TData> = (
+  args: Parameters<TFn>,
+  thisArg: ThisParameterType<TFn>,
+) => TData;
+
+type ChannelData = { error?: unknown; result?: unknown };
+
+/**
+ * Options for `wrap` and `traced`
+ */
+export interface WrapOptions {
+  /**
+   * Position of the Node.js-style `(error, result)` callback in the arguments, `-1` for the last one.
+   * Calls with a function at that position are traced with `traceCallback`.
+   * By default, a trailing function is taken as the callback unless it or the wrapped function is `async`.
+   * `false` never traces calls with `traceCallback`, e.g. for `withLock(key, () => {})`.
+   */
+  callbackPosition?: number | false;
+}
+
+/**
+ * Wraps a function so every call is traced through the channel, keeping its signature.
+ * The trace method is picked for each call:
+ *
+ * - `traceCallback` if the argument at `options.callbackPosition` is a function, or the last argument
+ *   is a function that isn't `async` while `callbackPosition` is left out
+ * - `tracePromise` for `async` functions
+ * - otherwise `traceSync`, switching to `tracePromise` semantics if the function returns a native promise
+ *
+ * Other thenables, e.g. lazy query builders, are returned untouched and traced as sync results,
+ * since calling their `then` may run them. While nothing is bound to or subscribes to the channel,
+ * `fn` is called directly.
+ *
+ * @param channel - The channel to trace calls through, e.g. returned by `tracingChannel`
+ * @param fn - The function to wrap
+ * @param mapData - Builds the channel data of a call from its arguments and receiver
+ * @param options - Where the callback of callback-style functions is
+ *
+ * @example
+ * ```ts
+ * const channel = tracingChannel<{ key: string }>('cache:get', createSpan);
+ *
+ * client.get = wrap(channel, client.get, ([key]) => ({ key }));
+ * ```
+ */
+export function wrap<TFn extends (...args: any[]) => any, TData extends object>(
+  channel: TracingChannel<any, TData>,
+  fn: TFn,
+  mapData: TraceDataMapper<TFn, TData>,
+  options: WrapOptions = {},
+): TFn {
+  const isAsync = isAsyncFunction(fn);
+  const { callbackPosition } = options;
+
+  const traced = function (
+    this: ThisParameterType<TFn>,
+    ...args: Parameters<TFn>
+  ): ReturnType<TFn> {
+    if (!channel.hasSubscribers) {
+      return Reflect.apply(fn, this, args) as ReturnType<TFn>;
+    }
+
+    const data = mapData(args, this);
+    const position = getCallbackPosition(args, isAsync, callbackPosition);
+
+    if (position !== undefined) {
+      return channel.traceCallback(fn, position, data, this, ...args);
+    }
+
+    if (isAsync) {
+      return channel.tracePromise(fn, data, this, ...args) as ReturnType<TFn>;
+    }
+
+    return traceMaybePromise(channel, fn, data, this, args);
+  };
+
+  Object.defineProperty(traced, 'name', { value: fn.name });
+  Object.defineProperty(traced, 'length', { value: fn.length });
+
+  return traced as TFn;
+}
+
+/**
+ * Finds the position of the callback of a call, if it's traced with `traceCallback`
+ */
+function getCallbackPosition(
+  args: unknown[],
+  isAsync: boolean,
+  callbackPosition: number | false | undefined,
+): number | undefined {
+  if (callbackPosition === false) {
+    return undefined;
+  }
+
+  if (callbackPosition !== undefined) {
+    return typeof args.at(callbackPosition) === 'function'
+      ? callbackPosition
+      : undefined;
+  }
+
+  const callback = args.at(-1);
+  return !isAsync &&
+    typeof callback === 'function' &&
+    !isAsyncFunction(callback)
+    ? -1
+    : undefined;
+}
+
+function isAsyncFunction(fn: Function): boolean {
+  return fn.constructor.name === 'AsyncFunction';
+}
+
+/**
+ * Runs `fn` like `traceSync`, or like `tracePromise` if it returns a native promise.
+ * `data.result` is only set before `end` for sync results, so the operation isn't considered finished early.
+ */
+function traceMaybePromise<TData extends object>(
+  channel: TracingChannel<any, TData>,
+  fn: (...args: any[]) => any,
+  data: TData & ChannelData,
+  thisArg: unknown,
+  args: unknown[],
+): any {
+  const { start, end, asyncStart, asyncEnd, error } = channel;
+
+  function resolve(result: unknown): unknown {
+    data.result = result;
+    asyncStart.publish(data);
+    asyncEnd.publish(data);
+    return result;
+  }
+
+  function reject(err: unknown): Promise<never> {
+    data.error = err;
+    error.publish(data);
+    asyncStart.publish(data);
+    asyncEnd.publish(data);
+    return Promise.reject(err);
+  }
+
+  return start.runStores(data, () => {
+    try {
+      const result = Reflect.apply(fn, thisArg, args);
+      if (types.isPromise(result)) {
+        return result.then(resolve, reject);
+      }
+
+      data.result = result;
+      return result;
+    } catch (err) {
+      data.error = err;
+      error.publish(data);
+      throw err;
+    } finally {
+      end.publish(data);
+    }
+  });
+}
+
+/**
+ * Method decorator tracing every call through the channel, see `wrap` for how the trace method is picked.
+ * The span created by `transformStart` is active inside the method body.
+ *
+ * @param channel - The channel to trace calls through, e.g. returned by `tracingChannel`
+ * @param mapData - Builds the channel data of a call from its arguments and the instance
+ * @param options - Where the callback of callback-style methods is, see `wrap`
+ *
+ * @example
+ * ```ts
+ * class UserService {
+ *   @traced(channel, ([id]) => ({ id }))
+ *   async getUser(id: string) {}
+ * }
+ * ```
+ */
+export function traced<
+  TData extends object,
+  TThis = any,
+  TArgs extends any[] = any[],
+>(
+  channel: TracingChannel<any, TData>,
+  mapData: (args: TArgs, thisArg: TThis) => TData,
+  options: WrapOptions = {},
+) {
+  return function <TResult>(
+    method: (this: TThis, ...args: TArgs) => TResult,
+    _context: ClassMethodDecoratorContext<
+      TThis,
+      (this: TThis, ...args: TArgs) => TResult
+    >,
+  ): (this: TThis, ...args: TArgs) => TResult {
+    return wrap(channel, method, mapData, options);
+  };
+}
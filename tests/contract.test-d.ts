@@ -0,0 +1,41 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import { defineTracingChannel, tracingChannel } from '../src';
+
+describe('defineTracingChannel', () => {
+  const contract = defineTracingChannel<{ sql: string }, string[]>(
+    'contract:query',
+  );
+
+  it('should type the channel data of channels bound with the contract', () => {
+    tracingChannel(
+      contract,
+      (data) => {
+        expectTypeOf(data.sql).toEqualTypeOf<string>();
+        return undefined;
+      },
+      {
+        resultAttributes: (_, data) => {
+          expectTypeOf(data.result).toEqualTypeOf<string[] | undefined>();
+          expectTypeOf(data.error).toEqualTypeOf<unknown>();
+          return undefined;
+        },
+      },
+    );
+  });
+
+  it('should type the results of operations', () => {
+    expectTypeOf(
+      contract.traceSync(() => ['a'], { sql: 'SELECT 1' }),
+    ).toEqualTypeOf<string[]>();
+    expectTypeOf(
+      contract.tracePromise(async () => ['a'], { sql: 'SELECT 1' }),
+    ).toEqualTypeOf<Promise<string[]>>();
+  });
+
+  it('should reject results and data of other types', () => {
+    // @ts-expect-error - the operations of the contract return rows
+    contract.traceSync(() => 42, { sql: 'SELECT 1' });
+    // @ts-expect-error - the data of the contract has a query
+    contract.traceSync(() => ['a'], { query: 'SELECT 1' });
+  });
+});
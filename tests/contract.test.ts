@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { defineTracingChannel, tracingChannel } from '../src';
+import { useTestTracing } from './helpers';
+
+describe('defineTracingChannel', () => {
+  const tracing = useTestTracing();
+
+  it('should run operations without publishing while nothing is bound', async () => {
+    const contract = defineTracingChannel<{ key: string }, number>(
+      'contract:unbound',
+    );
+    const data = { key: 'a' };
+
+    const receiver = { offset: 1 };
+    const result = contract.traceSync(
+      function (this: typeof receiver, value: number) {
+        return value + this.offset;
+      },
+      data,
+      receiver,
+      41,
+    );
+    const asyncResult = await contract.tracePromise(async () => 42, data);
+
+    expect(contract.hasSubscribers).toBe(false);
+    expect(result).toBe(42);
+    expect(asyncResult).toBe(42);
+    // `TracingChannel` would have set the result
+    expect(data).toEqual({ key: 'a' });
+  });
+
+  it('should publish operations to the channel bound with the contract', async () => {
+    const contract = defineTracingChannel<{ sql: string }, string[]>(
+      'contract:query',
+    );
+    using _channel = tracingChannel(
+      contract,
+      (data) => tracing.tracer.startSpan(data.sql),
+      {
+        autoEnd: true,
+        resultAttributes: (_, data) => ({ rows: data.result?.length ?? 0 }),
+      },
+    );
+
+    expect(contract.hasSubscribers).toBe(true);
+
+    const rows = await contract.tracePromise(async () => ['a', 'b'], {
+      sql: 'SELECT 1',
+    });
+    await expect(
+      contract.tracePromise(() => Promise.reject(new Error('failed')), {
+        sql: 'SELECT 2',
+      }),
+    ).rejects.toThrow('failed');
+
+    expect(rows).toEqual(['a', 'b']);
+    tracing.expectSpanTree({ name: 'SELECT 1', attributes: { rows: 2 } });
+    tracing.expectSpanTree({ name: 'SELECT 2', status: SpanStatusCode.ERROR });
+  });
+
+  it('should publish callback operations', async () => {
+    const contract = defineTracingChannel<{ path: string }>('contract:read');
+    using _channel = tracingChannel(
+      contract,
+      (data) => tracing.tracer.startSpan(data.path),
+      { autoEnd: true },
+    );
+
+    const content = await new Promise((resolve, reject) => {
+      contract.traceCallback(
+        (
+          path: string,
+          callback: (error: Error | null, value?: string) => void,
+        ) => setImmediate(() => callback(null, `content of ${path}`)),
+        -1,
+        { path: 'file.txt' },
+        undefined,
+        'file.txt',
+        (error: Error | null, value?: string) =>
+          error ? reject(error) : resolve(value),
+      );
+    });
+
+    expect(content).toBe('content of file.txt');
+    tracing.expectSpanTree({ name: 'file.txt' });
+  });
+
+  it('should stop publishing once unbound', () => {
+    const contract = defineTracingChannel('contract:unbind');
+    const channel = tracingChannel(contract, () =>
+      tracing.tracer.startSpan('operation'),
+    );
+
+    channel.unbind();
+
+    expect(contract.hasSubscribers).toBe(false);
+    expect(contract.traceSync(() => 'result', {})).toBe('result');
+    expect(tracing.getFinishedSpans()).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import { afterAll, afterEach, beforeAll } from 'vitest';
+import { setLogger } from '../src';
+import { setupTestTracing, type TestTracing } from '../src/testing';
+
+/**
+ * Sets up in-memory tracing for the tests of the current file or `describe` block, clearing the
+ * finished spans and the logger after each test. The globals are only registered once the block runs.
+ */
+export function useTestTracing(): TestTracing {
+  let tracing: TestTracing | undefined;
+
+  beforeAll(() => {
+    tracing = setupTestTracing();
+  });
+
+  afterEach(() => {
+    setLogger();
+    tracing?.reset();
+  });
+
+  afterAll(async () => {
+    await tracing?.teardown();
+    tracing = undefined;
+  });
+
+  return new Proxy({} as TestTracing, {
+    get(_target, key) {
+      if (!tracing) {
+        throw new Error('Test tracing is only set up while its tests run');
+      }
+
+      return Reflect.get(tracing, key);
+    },
+  });
+}
@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'node:stream';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { traceAsyncIterable, traceStream, tracingChannel } from '../src';
+import { useTestTracing } from './helpers';
+
+describe('traceAsyncIterable', () => {
+  const tracing = useTestTracing();
+
+  function createChannel(name: string) {
+    return tracingChannel(name, () => tracing.tracer.startSpan('cursor'), {
+      autoEnd: true,
+    });
+  }
+
+  async function* fetchPages(count: number) {
+    for (let page = 1; page <= count; page++) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      tracing.tracer.startSpan(`page ${page}`).end();
+      yield `page ${page}`;
+    }
+  }
+
+  it('should keep the span active while producing items', async () => {
+    using channel = createChannel('iterable-complete');
+
+    const pages: string[] = [];
+    for await (const page of traceAsyncIterable(
+      channel,
+      () => fetchPages(2),
+      {},
+    )) {
+      pages.push(page);
+      // Consumer work isn't part of the operation
+      tracing.tracer.startSpan('consumer').end();
+    }
+
+    expect(pages).toEqual(['page 1', 'page 2']);
+    tracing.expectSpanTree({
+      name: 'cursor',
+      children: [{ name: 'page 1' }, { name: 'page 2' }],
+    });
+  });
+
+  it('should end the span when iteration completes', async () => {
+    using channel = createChannel('iterable-end');
+    const iterable = traceAsyncIterable(channel, () => fetchPages(1), {});
+
+    await iterable.next();
+    expect(tracing.getFinishedSpans().map((span) => span.name)).toEqual([
+      'page 1',
+    ]);
+
+    await expect(iterable.next()).resolves.toEqual({
+      done: true,
+      value: undefined,
+    });
+    tracing.expectSpanTree({ name: 'cursor' });
+  });
+
+  it('should not start before iteration begins', () => {
+    using channel = createChannel('iterable-lazy');
+    let created = false;
+
+    traceAsyncIterable(
+      channel,
+      () => {
+        created = true;
+        return fetchPages(1);
+      },
+      {},
+    );
+
+    expect(created).toBe(false);
+    expect(tracing.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('should record early cancellation', async () => {
+    using channel = createChannel('iterable-cancel');
+
+    for await (const _ of traceAsyncIterable(
+      channel,
+      () => fetchPages(3),
+      {},
+    )) {
+      break;
+    }
+
+    const span = tracing.getFinishedSpans().find((s) => s.name === 'cursor');
+    expect(span?.events.map((event) => event.name)).toEqual(['cancelled']);
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should record errors thrown while iterating', async () => {
+    using channel = createChannel('iterable-error');
+    async function* failing() {
+      yield 1;
+      throw new Error('Connection lost');
+    }
+
+    const consume = async () => {
+      for await (const _ of traceAsyncIterable(channel, failing, {})) {
+        // Consume
+      }
+    };
+
+    await expect(consume()).rejects.toThrow('Connection lost');
+    tracing.expectSpanTree({ name: 'cursor', status: SpanStatusCode.ERROR });
+  });
+
+  it('should record errors thrown by the factory', async () => {
+    using channel = createChannel('iterable-factory-error');
+    const iterable = traceAsyncIterable(
+      channel,
+      (): AsyncIterable<number> => {
+        throw new Error('Invalid query');
+      },
+      {},
+    );
+
+    await expect(iterable.next()).rejects.toThrow('Invalid query');
+    tracing.expectSpanTree({ name: 'cursor', status: SpanStatusCode.ERROR });
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should count items and bytes', async () => {
+    using channel = tracingChannel(
+      'iterable-count',
+      () => tracing.tracer.startSpan('cursor'),
+      { autoEnd: true },
+    );
+
+    const iterable = traceAsyncIterable(
+      channel,
+      () => fetchPages(2),
+      {},
+      {
+        itemCountAttribute: 'items',
+        byteCountAttribute: 'bytes',
+      },
+    );
+    for await (const _ of iterable) {
+      // Consume
+    }
+
+    tracing.expectSpanTree({
+      name: 'cursor',
+      attributes: { items: 2, bytes: 12 },
+    });
+  });
+});
+
+describe('traceStream', () => {
+  const tracing = useTestTracing();
+
+  function createChannel(name: string) {
+    return tracingChannel(name, () => tracing.tracer.startSpan('stream'), {
+      autoEnd: true,
+    });
+  }
+
+  function createStream(chunks: string[]) {
+    return new Readable({
+      read() {
+        tracing.tracer.startSpan('read').end();
+        this.push(chunks.shift() ?? null);
+      },
+    });
+  }
+
+  it('should end the span once the stream ends', async () => {
+    using channel = createChannel('stream-end');
+    const stream = traceStream(
+      channel,
+      createStream(['a', 'bc']),
+      {},
+      {
+        itemCountAttribute: 'items',
+        byteCountAttribute: 'bytes',
+      },
+    );
+
+    expect(tracing.getFinishedSpans()).toHaveLength(0);
+
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(String(chunk));
+    }
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(chunks).toEqual(['a', 'bc']);
+    tracing.expectSpanTree({
+      name: 'stream',
+      attributes: { items: 2, bytes: 3 },
+      children: [{ name: 'read' }, { name: 'read' }, { name: 'read' }],
+    });
+  });
+
+  it('should count chunks consumed in flowing mode', async () => {
+    using channel = createChannel('stream-flowing');
+    const stream = traceStream(
+      channel,
+      createStream(['a', 'b']),
+      {},
+      {
+        itemCountAttribute: 'items',
+      },
+    );
+
+    stream.on('data', () => {});
+    await new Promise((resolve) => stream.on('close', resolve));
+
+    tracing.expectSpanTree({ name: 'stream', attributes: { items: 2 } });
+  });
+
+  it('should record stream errors', async () => {
+    using channel = createChannel('stream-error');
+    const stream = traceStream(channel, new Readable({ read() {} }), {});
+
+    stream.on('error', () => {});
+    stream.destroy(new Error('Socket hang up'));
+    await new Promise((resolve) => stream.on('close', resolve));
+
+    tracing.expectSpanTree({ name: 'stream', status: SpanStatusCode.ERROR });
+  });
+
+  it('should record streams destroyed before they end', async () => {
+    using channel = createChannel('stream-cancel');
+    const stream = traceStream(channel, new Readable({ read() {} }), {});
+
+    stream.destroy();
+    await new Promise((resolve) => stream.on('close', resolve));
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+    expect(span?.events.map((event) => event.name)).toEqual(['cancelled']);
+  });
+});
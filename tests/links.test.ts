@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  context,
+  trace,
+  INVALID_SPAN_CONTEXT,
+  type SpanOptions,
+  type TracerProvider,
+} from '@opentelemetry/api';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import {
+  captureLink,
+  extractContext,
+  injectContext,
+  setLogger,
+  tracingChannel,
+  type ChannelLink,
+  type LogRecord,
+} from '../src';
+import { useTestTracing } from './helpers';
+
+describe('span links', () => {
+  const tracing = useTestTracing();
+
+  function inSpan<T>(name: string, fn: () => T): [T, ReadableSpan] {
+    return tracing.tracer.startActiveSpan(name, (span): [T, ReadableSpan] => {
+      const result = fn();
+      span.end();
+
+      return [result, span as unknown as ReadableSpan];
+    });
+  }
+
+  it('should link the batch span to the callers that queued items', async () => {
+    using channel = tracingChannel(
+      'links:batch',
+      () => tracing.tracer.startSpan('batch'),
+      {
+        autoEnd: true,
+        links: (data: { items: Array<{ link?: ChannelLink }> }) =>
+          data.items.map((item) => item.link),
+      },
+    );
+
+    const [first, firstCaller] = inSpan('caller-1', () => ({
+      key: 1,
+      link: captureLink({ 'batch.key': 1 }),
+    }));
+    const [second, secondCaller] = inSpan('caller-2', () => ({
+      key: 2,
+      link: captureLink(),
+    }));
+
+    await channel.tracePromise(async () => 'loaded', {
+      items: [first, second],
+    });
+
+    const batch = tracing
+      .getFinishedSpans()
+      .find((span) => span.name === 'batch');
+    expect(batch?.links).toEqual([
+      {
+        context: firstCaller.spanContext(),
+        attributes: { 'batch.key': 1 },
+      },
+      { context: secondCaller.spanContext() },
+    ]);
+    // The batch isn't parented to any caller
+    expect(batch?.parentSpanContext).toBeUndefined();
+  });
+
+  it('should accept span contexts and contexts extracted from carriers', () => {
+    const [carrier, remote] = inSpan('remote', () => injectContext());
+    const [spanContext, local] = inSpan('local', () =>
+      trace.getActiveSpan()?.spanContext(),
+    );
+
+    using channel = tracingChannel(
+      'links:values',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        autoEnd: true,
+        links: () => [
+          extractContext(carrier),
+          spanContext,
+          // Ignored
+          spanContext,
+          undefined,
+          INVALID_SPAN_CONTEXT,
+          context.active(),
+        ],
+      },
+    );
+
+    channel.traceSync(() => 'result', {});
+
+    const [operation] = tracing
+      .getFinishedSpans()
+      .filter((span) => span.name === 'operation');
+    expect(operation?.links.map((link) => link.context.spanId)).toEqual([
+      remote.spanContext().spanId,
+      local.spanContext().spanId,
+    ]);
+  });
+
+  it('should not add links when the option returns nothing', () => {
+    using channel = tracingChannel(
+      'links:empty',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, links: () => undefined },
+    );
+
+    channel.traceSync(() => 'result', {});
+
+    expect(tracing.getFinishedSpans()[0]?.links).toEqual([]);
+  });
+
+  it('should start the spans of span definitions with the links', () => {
+    const [definitionLink] = inSpan('definition', () => captureLink());
+    const [optionLink] = inSpan('caller', () => captureLink());
+    const started: SpanOptions[] = [];
+    const tracerProvider: TracerProvider = {
+      getTracer: () => ({
+        startSpan: (name, options = {}, ctx) => {
+          started.push(options);
+          return tracing.tracer.startSpan(name, options, ctx);
+        },
+        startActiveSpan: tracing.tracer.startActiveSpan.bind(tracing.tracer),
+      }),
+    };
+    using channel = tracingChannel(
+      'links:definition',
+      {
+        tracerName: 'test',
+        tracerProvider,
+        name: 'batch',
+        links: [definitionLink!],
+      },
+      { autoEnd: true, links: () => [optionLink] },
+    );
+
+    channel.traceSync(() => 'result', {});
+
+    expect(started[0]?.links).toEqual([definitionLink, optionLink]);
+    const batch = tracing
+      .getFinishedSpans()
+      .find((span) => span.name === 'batch');
+    expect(batch?.links).toEqual([definitionLink, optionLink]);
+  });
+
+  it('should log when links cannot be added to the span', () => {
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    const [link] = inSpan('caller', () => captureLink());
+    const spans = [
+      // Written before `addLinks` was added to the `Span` interface
+      Object.assign(tracing.tracer.startSpan('legacy'), {
+        addLinks: undefined,
+      }),
+      Object.assign(tracing.tracer.startSpan('failing'), {
+        addLinks: () => {
+          throw new Error('broken');
+        },
+      }),
+    ];
+    using channel = tracingChannel('links:unsupported', () => spans.shift(), {
+      autoEnd: true,
+      links: () => [link],
+    });
+
+    expect(channel.traceSync(() => 'result', {})).toBe('result');
+    expect(channel.traceSync(() => 'result', {})).toBe('result');
+
+    expect(records).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        channel: 'links:unsupported',
+        message: "Span doesn't support addLinks, its links are dropped",
+      }),
+      expect.objectContaining({
+        level: 'error',
+        channel: 'links:unsupported',
+        message: 'Adding links to the span failed',
+        error: new Error('broken'),
+      }),
+    ]);
+  });
+
+  it('should capture no link without an active span', () => {
+    expect(captureLink()).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  setDebugChannels,
+  setDebugFlag,
+  setLogLevel,
+  setLogger,
+  tracingChannel,
+  type LogRecord,
+} from '../src';
+import { log } from '../src/logger';
+import { useTestTracing } from './helpers';
+
+describe('logger', () => {
+  const tracing = useTestTracing();
+  let records: LogRecord[];
+
+  afterEach(() => {
+    setLogLevel('warn');
+    setDebugChannels();
+    vi.restoreAllMocks();
+  });
+
+  function collect(): void {
+    records = [];
+    setLogger((record) => records.push(record));
+  }
+
+  it('should only log warnings and errors by default', () => {
+    collect();
+
+    log('debug', 'debug message');
+    log('info', 'info message');
+    log('warn', 'warn message');
+    log('error', 'error message');
+
+    expect(records.map(({ level }) => level)).toEqual(['warn', 'error']);
+  });
+
+  it('should apply the log level', () => {
+    collect();
+
+    setLogLevel('info');
+    log('debug', 'debug message');
+    log('info', 'info message');
+    setLogLevel('silent');
+    log('error', 'error message');
+
+    expect(records.map(({ message }) => message)).toEqual(['info message']);
+  });
+
+  it('should map the debug flag to the debug level', () => {
+    collect();
+
+    setDebugFlag(true);
+    log('debug', 'enabled');
+    setDebugFlag(false);
+    log('debug', 'disabled');
+    log('warn', 'warning');
+
+    expect(records.map(({ message }) => message)).toEqual([
+      'enabled',
+      'warning',
+    ]);
+  });
+
+  it('should pass structured fields to the sink', () => {
+    collect();
+    setLogLevel('debug');
+    using channel = tracingChannel('logger-fields', () =>
+      tracing.tracer.startSpan('operation'),
+    );
+
+    const data: any = {};
+    channel.traceSync(() => 'result', data);
+
+    const { traceId, spanId } = data.span.spanContext();
+    expect(records).toContainEqual(
+      expect.objectContaining({
+        level: 'debug',
+        message: 'Returning context to AsyncLocalStorage',
+        channel: 'logger-fields',
+        event: 'start',
+        traceId,
+        spanId,
+      }),
+    );
+  });
+
+  it('should log unsupported transform results as warnings', () => {
+    collect();
+    using channel = tracingChannel(
+      'logger-warning',
+      () => ({ notASpan: true }) as any,
+    );
+
+    channel.traceSync(() => 'result', {});
+
+    expect(records).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        channel: 'logger-warning',
+        event: 'start',
+        message: expect.stringContaining('non-span'),
+      }),
+    ]);
+  });
+
+  it('should enable all logs about the matching channels', () => {
+    collect();
+    setDebugChannels('db:*, http');
+    using dbChannel = tracingChannel('db:query', () =>
+      tracing.tracer.startSpan('query'),
+    );
+    using otherChannel = tracingChannel('cache:get', () =>
+      tracing.tracer.startSpan('get'),
+    );
+
+    dbChannel.traceSync(() => 'result', {});
+    otherChannel.traceSync(() => 'result', {});
+    log('debug', 'exact match', { channel: 'http' });
+    log('debug', 'no match', { channel: 'https' });
+
+    const channels = new Set(records.map(({ channel }) => channel));
+    expect(channels).toEqual(new Set(['db:query', 'http']));
+  });
+
+  it('should write to the console by default', () => {
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    const error = new Error('boom');
+
+    log('warn', 'warning', {}, ['extra']);
+    log('error', 'failure', { channel: 'console', error });
+
+    expect(consoleWarn).toHaveBeenCalledWith(
+      '[otel-tracing-channel]',
+      'warning',
+      'extra',
+    );
+    expect(consoleError).toHaveBeenCalledWith(
+      '[otel-tracing-channel]',
+      'failure',
+      { channel: 'console', error },
+    );
+  });
+});
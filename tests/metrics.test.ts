@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MeterProvider,
+  MetricReader,
+  type DataPoint,
+  type Histogram,
+} from '@opentelemetry/sdk-metrics';
+import { setLogger, tracingChannel, type LogRecord } from '../src';
+import { useTestTracing } from './helpers';
+
+class TestMetricReader extends MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+  protected async onShutdown(): Promise<void> {}
+}
+
+describe('metrics', () => {
+  const tracing = useTestTracing();
+
+  function setupMeterProvider() {
+    const reader = new TestMetricReader();
+    const meterProvider = new MeterProvider({ readers: [reader] });
+
+    async function collect(name: string): Promise<DataPoint<any>[]> {
+      const { resourceMetrics } = await reader.collect();
+      const metric = resourceMetrics.scopeMetrics
+        .flatMap((scope) => scope.metrics)
+        .find((metric) => metric.descriptor.name === name);
+
+      return metric?.dataPoints ?? [];
+    }
+
+    return { meterProvider, collect };
+  }
+
+  it('should record calls and durations of sync and async operations', async () => {
+    const { meterProvider, collect } = setupMeterProvider();
+    using channel = tracingChannel(
+      'metrics-calls',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, metrics: { meterProvider } },
+    );
+
+    channel.traceSync(() => 'result', {});
+    await channel.tracePromise(
+      () => new Promise((resolve) => setTimeout(resolve, 20)),
+      {},
+    );
+
+    const [calls] = await collect('tracing_channel.calls');
+    expect(calls?.value).toBe(2);
+    expect(calls?.attributes).toEqual({
+      'tracing_channel.name': 'metrics-calls',
+    });
+
+    const [duration] = await collect('tracing_channel.duration');
+    const histogram = duration?.value as Histogram;
+    expect(histogram.count).toBe(2);
+    expect(histogram.max).toBeGreaterThanOrEqual(0.015);
+    expect(histogram.max).toBeLessThan(1);
+
+    expect(await collect('tracing_channel.errors')).toEqual([]);
+  });
+
+  it('should count failed operations with their error type', async () => {
+    const { meterProvider, collect } = setupMeterProvider();
+    using channel = tracingChannel(
+      'metrics-errors',
+      () => tracing.tracer.startSpan('operation'),
+      { metrics: { meterProvider } },
+    );
+
+    const error = Object.assign(new Error('Connection refused'), {
+      code: 'ECONNREFUSED',
+    });
+    await expect(
+      channel.tracePromise(async () => {
+        throw error;
+      }, {}),
+    ).rejects.toThrow(error);
+    expect(() =>
+      channel.traceSync(() => {
+        throw new TypeError('Invalid');
+      }, {}),
+    ).toThrow(TypeError);
+
+    const errors = await collect('tracing_channel.errors');
+    expect(errors.map((point) => [point.attributes, point.value])).toEqual([
+      [
+        {
+          'tracing_channel.name': 'metrics-errors',
+          'error.type': 'ECONNREFUSED',
+        },
+        1,
+      ],
+      [
+        { 'tracing_channel.name': 'metrics-errors', 'error.type': 'TypeError' },
+        1,
+      ],
+    ]);
+  });
+
+  it('should classify errors like the spans of the channel', async () => {
+    const { meterProvider, collect } = setupMeterProvider();
+    using channel = tracingChannel(
+      'metrics-classified',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        metrics: { meterProvider },
+        classifyError: (error) =>
+          error instanceof RangeError
+            ? { attributes: { 'error.type': 'out_of_range' } }
+            : undefined,
+      },
+    );
+
+    for (const error of [
+      new DOMException('Aborted', 'AbortError'),
+      new RangeError('Too large'),
+    ]) {
+      expect(() =>
+        channel.traceSync(() => {
+          throw error;
+        }, {}),
+      ).toThrow(error);
+    }
+
+    const failure = {
+      'tracing_channel.name': 'metrics-classified',
+      'error.type': 'out_of_range',
+    };
+    const calls = await collect('tracing_channel.calls');
+    const errors = await collect('tracing_channel.errors');
+    expect(calls.map((point) => [point.attributes, point.value])).toEqual([
+      [{ 'tracing_channel.name': 'metrics-classified' }, 1],
+      [failure, 1],
+    ]);
+    expect(errors.map((point) => [point.attributes, point.value])).toEqual([
+      [failure, 1],
+    ]);
+  });
+
+  it('should take attributes from the channel data', async () => {
+    const { meterProvider, collect } = setupMeterProvider();
+    using channel = tracingChannel<{ table: string; rows: number[] }>(
+      'metrics-attributes',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        metrics: {
+          meterProvider,
+          attributes: {
+            'db.collection.name': 'table',
+            'db.rows': (data) => data.rows.length,
+          },
+        },
+      },
+    );
+
+    channel.traceSync(() => 'result', { table: 'users', rows: [1, 2] });
+
+    const [calls] = await collect('tracing_channel.calls');
+    expect(calls?.attributes).toEqual({
+      'db.collection.name': 'users',
+      'db.rows': 2,
+      'tracing_channel.name': 'metrics-attributes',
+    });
+  });
+
+  it('should log errors thrown by attribute selectors and error classifiers', async () => {
+    const { meterProvider, collect } = setupMeterProvider();
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    using channel = tracingChannel<{ table?: { name: string } }>(
+      'metrics-throwing-hooks',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        metrics: {
+          meterProvider,
+          attributes: { 'db.collection.name': (data) => data.table!.name },
+        },
+        classifyError: () => {
+          throw new Error('classifier failed');
+        },
+      },
+    );
+
+    expect(() =>
+      channel.traceSync(() => {
+        throw new TypeError('query failed');
+      }, {}),
+    ).toThrow('query failed');
+
+    const [errors] = await collect('tracing_channel.errors');
+    expect(errors?.attributes).toEqual({
+      'error.type': 'TypeError',
+      'tracing_channel.name': 'metrics-throwing-hooks',
+    });
+    expect(
+      records.map(({ message, channel, event }) => ({
+        message,
+        channel,
+        event,
+      })),
+    ).toEqual([
+      {
+        message: '"attributes.db.collection.name" threw an error',
+        channel: 'metrics-throwing-hooks',
+        event: 'metrics',
+      },
+      {
+        message: '"classifyError" threw an error',
+        channel: 'metrics-throwing-hooks',
+        event: 'metrics',
+      },
+    ]);
+  });
+
+  it('should record operations skipped by sampling', async () => {
+    const { meterProvider, collect } = setupMeterProvider();
+    using channel = tracingChannel(
+      'metrics-sampled-out',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, sampler: () => false, metrics: { meterProvider } },
+    );
+
+    channel.traceSync(() => 'result', {});
+
+    const [calls] = await collect('tracing_channel.calls');
+    expect(calls?.value).toBe(1);
+    expect(tracing.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('should stop recording once unbound', async () => {
+    const { meterProvider, collect } = setupMeterProvider();
+    const channel = tracingChannel(
+      'metrics-unbind',
+      () => tracing.tracer.startSpan('operation'),
+      { metrics: { meterProvider } },
+    );
+
+    channel.traceSync(() => 'result', {});
+    channel.unbind();
+    channel.traceSync(() => 'result', {});
+
+    const [calls] = await collect('tracing_channel.calls');
+    expect(calls?.value).toBe(1);
+  });
+});
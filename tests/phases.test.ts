@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { addChannelEvent, tracingChannel } from '../src';
+import { useTestTracing } from './helpers';
+
+describe('phases', () => {
+  const tracing = useTestTracing();
+
+  it('should add span events for each phase', async () => {
+    using channel = tracingChannel(
+      'phases-events',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, phases: 'events' },
+    );
+
+    await channel.tracePromise(async () => {}, {});
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.events.map((event) => event.name)).toEqual([
+      'tracing_channel.end',
+      'tracing_channel.asyncStart',
+      'tracing_channel.asyncEnd',
+    ]);
+  });
+
+  it('should only add the end event for sync operations', () => {
+    using channel = tracingChannel(
+      'phases-events-sync',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, phases: 'events' },
+    );
+
+    channel.traceSync(() => 'result', {});
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.events.map((event) => event.name)).toEqual([
+      'tracing_channel.end',
+    ]);
+  });
+
+  it('should set phase durations as attributes', async () => {
+    using channel = tracingChannel(
+      'phases-attributes',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, phases: 'attributes' },
+    );
+
+    await new Promise<void>((resolve) =>
+      channel.traceCallback(
+        (callback: () => void) => setTimeout(callback, 20),
+        -1,
+        {},
+        undefined,
+        () => {
+          const end = performance.now() + 10;
+          while (performance.now() < end) {
+            // Busy callback
+          }
+          resolve();
+        },
+      ),
+    );
+
+    const [span] = tracing.getFinishedSpans();
+    const attributes = span?.attributes ?? {};
+    expect(attributes['tracing_channel.sync.duration']).toBeLessThan(0.015);
+    expect(attributes['tracing_channel.pending.duration']).toBeGreaterThan(
+      0.015,
+    );
+    expect(attributes['tracing_channel.callback.duration']).toBeGreaterThan(
+      0.009,
+    );
+  });
+
+  it('should record phases before spans are ended by other subscribers', async () => {
+    using channel = tracingChannel(
+      'phases-user-end',
+      () => tracing.tracer.startSpan('operation'),
+      { phases: 'events' },
+    );
+    const subscribers = { asyncEnd: (data: any) => data.span?.end() } as any;
+    channel.subscribe(subscribers);
+
+    await channel.tracePromise(async () => {}, {});
+    channel.unsubscribe(subscribers);
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.events.map((event) => event.name)).toContain(
+      'tracing_channel.asyncEnd',
+    );
+  });
+});
+
+describe('addChannelEvent', () => {
+  const tracing = useTestTracing();
+
+  it('should add events to the channel span, even when a child span is active', async () => {
+    using channel = tracingChannel(
+      'add-event',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true },
+    );
+
+    await channel.tracePromise(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      tracing.tracer.startActiveSpan('child', (child) => {
+        addChannelEvent('connection.acquired', { 'pool.size': 2 });
+        child.end();
+      });
+    }, {});
+
+    const operation = tracing
+      .getFinishedSpans()
+      .find((span) => span.name === 'operation');
+    expect(operation?.events).toMatchObject([
+      { name: 'connection.acquired', attributes: { 'pool.size': 2 } },
+    ]);
+  });
+
+  it('should add events to the innermost channel span', () => {
+    using outer = tracingChannel(
+      'add-event-outer',
+      () => tracing.tracer.startSpan('outer'),
+      { autoEnd: true },
+    );
+    using inner = tracingChannel(
+      'add-event-inner',
+      () => tracing.tracer.startSpan('inner'),
+      { autoEnd: true },
+    );
+
+    outer.traceSync(
+      () => inner.traceSync(() => addChannelEvent('event'), {}),
+      {},
+    );
+
+    const events = Object.fromEntries(
+      tracing
+        .getFinishedSpans()
+        .map((span) => [span.name, span.events.map((event) => event.name)]),
+    );
+    expect(events).toEqual({ inner: ['event'], outer: [] });
+  });
+
+  it('should return false outside of channel operations', () => {
+    expect(addChannelEvent('event')).toBe(false);
+  });
+});
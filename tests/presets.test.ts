@@ -0,0 +1,345 @@
+import { describe, it, expect, afterEach, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import net, { type AddressInfo } from 'node:net';
+import { tracingChannel as nativeTracingChannel } from 'node:diagnostics_channel';
+import {
+  context,
+  propagation,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import {
+  instrumentFastify,
+  instrumentHttpClient,
+  instrumentNetClient,
+  instrumentUndici,
+  type FastifyHandlerData,
+  type Uninstrument,
+} from '../src';
+import { useTestTracing } from './helpers';
+
+const tracing = useTestTracing();
+
+let server: http.Server;
+let baseUrl: string;
+let receivedTraceparent: string | undefined;
+
+beforeAll(async () => {
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+
+  server = http.createServer((req, res) => {
+    receivedTraceparent = req.headers.traceparent as string | undefined;
+    res.statusCode = req.url === '/missing' ? 404 : 200;
+    res.end('ok');
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  propagation.disable();
+});
+
+describe('instrumentUndici', () => {
+  let uninstrument: Uninstrument;
+
+  beforeAll(() => {
+    uninstrument = instrumentUndici({
+      tracerProvider: tracing.tracerProvider,
+      ignoreRequest: (request) => request.path === '/ignored',
+    });
+  });
+
+  afterAll(() => {
+    uninstrument();
+  });
+
+  afterEach(() => {
+    receivedTraceparent = undefined;
+  });
+
+  it('should create client spans following the semantic conventions', async () => {
+    const response = await fetch(`${baseUrl}/users?id=1`);
+    await response.text();
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span.name).toBe('GET');
+    expect(span.kind).toBe(SpanKind.CLIENT);
+    expect(span.attributes).toEqual({
+      'http.request.method': 'GET',
+      'url.full': `${baseUrl}/users?id=1`,
+      'server.address': 'localhost',
+      'server.port': Number(new URL(baseUrl).port),
+      'http.response.status_code': 200,
+    });
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should parent the span and propagate its context to the server', async () => {
+    const parent = tracing.tracer.startSpan('parent');
+
+    await context.with(trace.setSpan(context.active(), parent), async () => {
+      const response = await fetch(`${baseUrl}/users`);
+      await response.text();
+    });
+    parent.end();
+
+    const span = tracing.getFinishedSpans().find((s) => s.name === 'GET');
+    expect(span?.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+    expect(receivedTraceparent).toBe(
+      `00-${span?.spanContext().traceId}-${span?.spanContext().spanId}-01`,
+    );
+  });
+
+  it('should fail spans for error status codes', async () => {
+    const response = await fetch(`${baseUrl}/missing`);
+    await response.text();
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span.attributes['http.response.status_code']).toBe(404);
+    expect(span.attributes['error.type']).toBe('404');
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  it('should skip ignored requests', async () => {
+    const response = await fetch(`${baseUrl}/ignored`);
+    await response.text();
+
+    expect(tracing.getFinishedSpans()).toHaveLength(0);
+    expect(receivedTraceparent).toBeUndefined();
+  });
+});
+
+describe('instrumentHttpClient', () => {
+  let uninstrument: Uninstrument;
+
+  beforeAll(() => {
+    uninstrument = instrumentHttpClient({
+      tracerProvider: tracing.tracerProvider,
+    });
+  });
+
+  afterAll(() => {
+    uninstrument();
+  });
+
+  afterEach(() => {
+    receivedTraceparent = undefined;
+  });
+
+  function get(path: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      http
+        .get(`${baseUrl}${path}`, (response) => {
+          response.resume();
+          response.on('end', resolve);
+        })
+        .on('error', reject);
+    });
+  }
+
+  it('should create client spans following the semantic conventions', async () => {
+    await get('/users?id=1');
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span.name).toBe('GET');
+    expect(span.kind).toBe(SpanKind.CLIENT);
+    expect(span.attributes).toEqual({
+      'http.request.method': 'GET',
+      'url.full': `${baseUrl}/users?id=1`,
+      'server.address': 'localhost',
+      'server.port': Number(new URL(baseUrl).port),
+      'http.response.status_code': 200,
+    });
+  });
+
+  it('should parent the span to the active context', async () => {
+    const parent = tracing.tracer.startSpan('parent');
+
+    await context.with(trace.setSpan(context.active(), parent), () =>
+      get('/users'),
+    );
+    parent.end();
+
+    const span = tracing.getFinishedSpans().find((s) => s.name === 'GET');
+    expect(span?.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+  });
+
+  it.runIf(Number(process.versions.node.split('.')[0]) >= 22)(
+    'should propagate the context to the server',
+    async () => {
+      await get('/users');
+
+      const [span] = tracing.getFinishedSpans();
+      expect(receivedTraceparent).toBe(
+        `00-${span.spanContext().traceId}-${span.spanContext().spanId}-01`,
+      );
+    },
+  );
+
+  it('should record connection errors', async () => {
+    await new Promise<void>((resolve) => {
+      http.get('http://localhost:1/', () => {}).on('error', () => resolve());
+    });
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span.attributes['error.type']).toBe('ECONNREFUSED');
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+  });
+});
+
+describe('instrumentNetClient', () => {
+  let uninstrument: Uninstrument;
+
+  beforeAll(() => {
+    uninstrument = instrumentNetClient({
+      tracerProvider: tracing.tracerProvider,
+    });
+  });
+
+  afterAll(() => {
+    uninstrument();
+  });
+
+  function connect(port: number): Promise<void> {
+    return new Promise((resolve) => {
+      const socket = net.connect(port, '127.0.0.1');
+      socket.on('connect', () => socket.end(resolve));
+      socket.on('error', () => resolve());
+    });
+  }
+
+  it('should create client spans once connected', async () => {
+    const parent = tracing.tracer.startSpan('parent');
+    const { port } = server.address() as AddressInfo;
+
+    await context.with(trace.setSpan(context.active(), parent), () =>
+      connect(port),
+    );
+    parent.end();
+
+    const span = tracing.getFinishedSpans().find((s) => s.name === 'connect');
+    expect(span?.kind).toBe(SpanKind.CLIENT);
+    expect(span?.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+    expect(span?.attributes).toEqual({
+      'network.transport': 'tcp',
+      'network.type': 'ipv4',
+      'network.peer.address': '127.0.0.1',
+      'network.peer.port': port,
+    });
+  });
+
+  it('should record connection errors', async () => {
+    await connect(1);
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span.attributes['error.type']).toBe('ECONNREFUSED');
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+  });
+});
+
+describe('instrumentFastify', () => {
+  // Mimics how Fastify publishes on its tracing channel
+  const fastifyChannel = nativeTracingChannel<FastifyHandlerData>(
+    'fastify.request.handler',
+  );
+
+  function handle(
+    data: FastifyHandlerData,
+    handler: () => unknown,
+  ): Promise<void> | void {
+    return fastifyChannel.start.runStores(data, () => {
+      let result: unknown;
+      try {
+        result = handler();
+      } catch (err) {
+        data.error = err;
+        fastifyChannel.error.publish(data);
+        return;
+      } finally {
+        if (result instanceof Promise) {
+          data.async = true;
+        }
+        fastifyChannel.end.publish(data);
+      }
+
+      if (result instanceof Promise) {
+        return result.then(() => {
+          fastifyChannel.asyncStart.publish(data);
+          fastifyChannel.asyncEnd.publish(data);
+        });
+      }
+    });
+  }
+
+  function createData(): FastifyHandlerData {
+    return {
+      request: {
+        method: 'GET',
+        url: '/users/1',
+        routeOptions: { url: '/users/:id' },
+      },
+      reply: { statusCode: 200 },
+    };
+  }
+
+  let uninstrument: Uninstrument;
+
+  beforeAll(() => {
+    uninstrument = instrumentFastify({
+      tracerProvider: tracing.tracerProvider,
+    });
+  });
+
+  it('should trace sync handlers', () => {
+    void handle(createData(), () => 'ok');
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span.name).toBe('GET /users/:id');
+    expect(span.attributes).toEqual({
+      'http.request.method': 'GET',
+      'http.route': '/users/:id',
+      'http.response.status_code': 200,
+    });
+  });
+
+  it('should trace async handlers and parent their spans', async () => {
+    const data = createData();
+    const pending = handle(data, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      tracing.tracer.startSpan('child').end();
+    });
+
+    expect(data.span).toBeDefined();
+    await pending;
+
+    const [child, handler] = tracing.getFinishedSpans();
+    expect(handler.name).toBe('GET /users/:id');
+    expect(child.parentSpanContext?.spanId).toBe(handler.spanContext().spanId);
+  });
+
+  it('should record handler errors', () => {
+    void handle(createData(), () => {
+      throw new Error('handler failed');
+    });
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'handler failed',
+    });
+  });
+
+  it('should stop tracing once uninstrumented', () => {
+    uninstrument();
+
+    const data = createData();
+    void handle(data, () => 'ok');
+
+    expect(data.span).toBeUndefined();
+    expect(tracing.getFinishedSpans()).toHaveLength(0);
+  });
+});
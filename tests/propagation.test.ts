@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import { MessageChannel } from 'node:worker_threads';
+import {
+  context,
+  createTraceState,
+  propagation,
+  ROOT_CONTEXT,
+  trace,
+  TraceFlags,
+} from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { extractContext, injectContext, tracingChannel } from '../src';
+import { useTestTracing } from './helpers';
+
+const spanContext = {
+  traceId: '0af7651916cd43dd8448eb211c80319c',
+  spanId: 'b7ad6b7169203331',
+  traceFlags: TraceFlags.SAMPLED,
+};
+
+describe('injectContext', () => {
+  it('should write the span context as W3C trace context', () => {
+    const ctx = trace.setSpanContext(context.active(), {
+      ...spanContext,
+      traceState: createTraceState('vendor=value'),
+    });
+
+    expect(injectContext({}, ctx)).toEqual({
+      traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+      tracestate: 'vendor=value',
+    });
+  });
+
+  it('should write baggage', () => {
+    const ctx = propagation.setBaggage(
+      context.active(),
+      propagation.createBaggage({
+        'user.id': { value: 'a b,c' },
+        tenant: { value: 'acme' },
+      }),
+    );
+
+    expect(injectContext({}, ctx)).toEqual({
+      baggage: 'user.id=a%20b%2Cc,tenant=acme',
+    });
+  });
+
+  it('should leave the carrier empty without a span context or baggage', () => {
+    expect(injectContext()).toEqual({});
+  });
+
+  it('should use the given propagator', () => {
+    const ctx = trace.setSpanContext(context.active(), spanContext);
+
+    const carrier = injectContext({}, ctx, {
+      propagator: {
+        inject: (_ctx, carrier: Record<string, string>) => {
+          carrier['x-trace'] = 'custom';
+        },
+        extract: (ctx) => ctx,
+        fields: () => ['x-trace'],
+      },
+    });
+
+    expect(carrier).toEqual({ 'x-trace': 'custom' });
+  });
+});
+
+describe('extractContext', () => {
+  it('should read the span context written by injectContext', () => {
+    const ctx = trace.setSpanContext(context.active(), {
+      ...spanContext,
+      traceState: createTraceState('vendor=value'),
+    });
+
+    const extracted = trace.getSpanContext(
+      extractContext(injectContext({}, ctx)),
+    );
+
+    expect(extracted).toMatchObject({ ...spanContext, isRemote: true });
+    expect(extracted?.traceState?.get('vendor')).toBe('value');
+  });
+
+  it('should read baggage written by injectContext', () => {
+    const ctx = propagation.setBaggage(
+      context.active(),
+      propagation.createBaggage({ 'user.id': { value: 'a b,c' } }),
+    );
+
+    const baggage = propagation.getBaggage(
+      extractContext(injectContext({}, ctx)),
+    );
+
+    expect(baggage?.getEntry('user.id')?.value).toBe('a b,c');
+  });
+
+  it('should skip malformed baggage members', () => {
+    const baggage = propagation.getBaggage(
+      extractContext({ baggage: 'k=%E0%A4%A,tenant=acme' }),
+    );
+
+    expect(baggage?.getAllEntries()).toEqual([['tenant', { value: 'acme' }]]);
+  });
+
+  it('should ignore invalid trace context', () => {
+    for (const traceparent of [
+      'invalid',
+      'ff-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+      '00-00000000000000000000000000000000-b7ad6b7169203331-01',
+      '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01-extra',
+    ]) {
+      expect(trace.getSpanContext(extractContext({ traceparent }))).toBe(
+        undefined,
+      );
+    }
+  });
+
+  it('should return the context unchanged without a carrier', () => {
+    const ctx = context.active();
+
+    expect(extractContext(undefined, ctx)).toBe(ctx);
+  });
+
+  it('should be compatible with the W3C propagator of the SDK', () => {
+    const ctx = trace.setSpanContext(context.active(), spanContext);
+    const carrier: Record<string, string> = {};
+    new W3CTraceContextPropagator().inject(ctx, carrier, {
+      set: (carrier, key, value) => (carrier[key] = value),
+    });
+
+    expect(trace.getSpanContext(extractContext(carrier))).toMatchObject(
+      spanContext,
+    );
+  });
+});
+
+describe('carrier option', () => {
+  const tracing = useTestTracing();
+
+  it('should parent spans to the span that queued the job in another thread', async () => {
+    using channel = tracingChannel<{ name: string; carrier?: any }>(
+      'propagation-job',
+      (data) => tracing.tracer.startSpan(`job ${data.name}`),
+      { autoEnd: true, carrier: (data) => data.carrier },
+    );
+
+    const { port1, port2 } = new MessageChannel();
+    const received = new Promise<any>((resolve) =>
+      port2.once('message', resolve),
+    );
+
+    tracing.tracer.startActiveSpan('request', (span) => {
+      port1.postMessage({ name: 'resize', carrier: injectContext() });
+      span.end();
+    });
+
+    const job = await received;
+    port1.close();
+
+    // Runs outside of the request context, like a worker would
+    await context.with(ROOT_CONTEXT, () =>
+      channel.tracePromise(async () => {}, job),
+    );
+
+    tracing.expectSpanTree({
+      name: 'request',
+      children: [{ name: 'job resize' }],
+    });
+  });
+
+  it('should trace operations with a malformed carrier', () => {
+    using channel = tracingChannel<{ carrier?: any }>(
+      'propagation-malformed',
+      () => tracing.tracer.startSpan('job'),
+      { autoEnd: true, carrier: (data) => data.carrier },
+    );
+
+    const result = channel.traceSync(() => 'result', {
+      carrier: { baggage: 'k=%E0%A4%A' },
+    });
+
+    expect(result).toBe('result');
+    tracing.expectSpanTree({ name: 'job' });
+  });
+
+  it('should keep the active parent without a carrier', () => {
+    using channel = tracingChannel<{ carrier?: any }>(
+      'propagation-no-carrier',
+      () => tracing.tracer.startSpan('job'),
+      { autoEnd: true, carrier: (data) => data.carrier },
+    );
+
+    tracing.tracer.startActiveSpan('parent', (span) => {
+      channel.traceSync(() => {}, {});
+      span.end();
+    });
+
+    tracing.expectSpanTree({ name: 'parent', children: [{ name: 'job' }] });
+  });
+
+  it('should pass the remote parent through when the span is skipped', () => {
+    using channel = tracingChannel<{ carrier?: any }>(
+      'propagation-skipped',
+      () => tracing.tracer.startSpan('job'),
+      {
+        carrier: (data) => data.carrier,
+        shouldTrace: () => false,
+      },
+    );
+
+    const carrier = injectContext(
+      {},
+      trace.setSpanContext(context.active(), spanContext),
+    );
+    const active = channel.traceSync(() => trace.getActiveSpan(), {
+      carrier,
+    });
+
+    expect(active?.spanContext()).toMatchObject(spanContext);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { tracingChannel as nativeTracingChannel } from 'node:diagnostics_channel';
+import type { Context, Span } from '@opentelemetry/api';
+import { tracingChannel, listChannels } from '../src';
+import { getTracingChannelName } from '../src/registry';
+
+describe('listChannels', () => {
+  function findChannel(name: string) {
+    return listChannels().find((info) => info.name === name);
+  }
+
+  it('should list bound channels', () => {
+    using _channel = tracingChannel(
+      'registry:list',
+      function createQuerySpan() {
+        return createMockSpan();
+      },
+      { storage: new AsyncLocalStorage<Context>() },
+    );
+
+    expect(findChannel('registry:list')).toEqual({
+      name: 'registry:list',
+      boundBy: ['createQuerySpan'],
+      strategy: 'storage',
+      stores: [],
+      hasSubscribers: false,
+    });
+  });
+
+  it('should report the owner when set', () => {
+    using _channel = tracingChannel('registry:owner', () => createMockSpan(), {
+      owner: 'my-db-driver',
+    });
+
+    expect(findChannel('registry:owner')?.boundBy).toEqual(['my-db-driver']);
+  });
+
+  it('should report the tracer name of span definitions', () => {
+    using _channel = tracingChannel('registry:definition', {
+      tracerName: 'my-tracer',
+      name: 'operation',
+    });
+
+    expect(findChannel('registry:definition')?.boundBy).toEqual(['my-tracer']);
+  });
+
+  it('should report whether the channel has subscribers', () => {
+    using channel = tracingChannel('registry:subscribers', () =>
+      createMockSpan(),
+    );
+    expect(findChannel('registry:subscribers')?.hasSubscribers).toBe(false);
+
+    const subscribers = { asyncEnd: vi.fn() } as any;
+    channel.subscribe(subscribers);
+    expect(findChannel('registry:subscribers')?.hasSubscribers).toBe(true);
+
+    channel.unsubscribe(subscribers);
+  });
+
+  it('should report subscribers added by autoEnd', () => {
+    using _channel = tracingChannel(
+      'registry:auto-end',
+      () => createMockSpan(),
+      { autoEnd: true },
+    );
+
+    expect(findChannel('registry:auto-end')?.hasSubscribers).toBe(true);
+  });
+
+  it('should only report subscribers on events without internal ones', () => {
+    using channel = tracingChannel(
+      'registry:internal',
+      () => createMockSpan(),
+      { phases: 'events' },
+    );
+    const endSubscribers = { end: vi.fn() } as any;
+    const errorSubscribers = { error: vi.fn() } as any;
+
+    channel.subscribe(endSubscribers);
+    // The phases subscribe to end as well, so Node can't tell them apart
+    expect(findChannel('registry:internal')?.hasSubscribers).toBe(false);
+
+    channel.subscribe(errorSubscribers);
+    expect(findChannel('registry:internal')?.hasSubscribers).toBe(true);
+
+    channel.unsubscribe(endSubscribers);
+    channel.unsubscribe(errorSubscribers);
+  });
+
+  it('should report subscribers again once internal ones are unbound', () => {
+    using channel = tracingChannel('registry:composed', () => createMockSpan());
+    const metrics = tracingChannel(
+      'registry:composed',
+      () => createMockSpan(),
+      { metrics: true, onConflict: 'compose' },
+    );
+    const subscribers = { end: vi.fn() } as any;
+    channel.subscribe(subscribers);
+
+    expect(findChannel('registry:composed')?.hasSubscribers).toBe(false);
+    metrics.unbind();
+    expect(findChannel('registry:composed')?.hasSubscribers).toBe(true);
+
+    channel.unsubscribe(subscribers);
+  });
+
+  it('should remove unbound channels', () => {
+    const channel = tracingChannel('registry:unbound', () => createMockSpan());
+    channel.unbind();
+
+    expect(findChannel('registry:unbound')).toBeUndefined();
+  });
+});
+
+describe('getTracingChannelName', () => {
+  it('should get the name of a native tracing channel', () => {
+    expect(getTracingChannelName(nativeTracingChannel('db:query'))).toBe(
+      'db:query',
+    );
+  });
+});
+
+function createMockSpan(): Span {
+  return {
+    spanContext: () => ({
+      traceId: '12345678901234567890123456789012',
+      spanId: '1234567890123456',
+      traceFlags: 1,
+    }),
+    end: vi.fn(),
+  } as any;
+}
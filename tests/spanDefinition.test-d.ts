@@ -0,0 +1,80 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { AttributeValue } from '@opentelemetry/api';
+import {
+  tracingChannel,
+  type SpanAttributeMap,
+  type SpanDefinition,
+} from '../src';
+
+interface QueryData {
+  table: string;
+  rows: number[];
+}
+
+describe('SpanAttributeMap', () => {
+  it('should accept keys and selectors of the channel data', () => {
+    const attributes: SpanAttributeMap<QueryData> = {
+      'db.collection.name': 'table',
+      'db.rows': (data) => {
+        expectTypeOf(data).toEqualTypeOf<QueryData>();
+        return data.rows.length;
+      },
+    };
+
+    expectTypeOf(attributes).toExtend<
+      Record<
+        string,
+        keyof QueryData | ((data: QueryData) => AttributeValue | undefined)
+      >
+    >();
+  });
+
+  it('should reject keys missing from the channel data', () => {
+    // @ts-expect-error - `tabel` is not a key of the channel data
+    const attributes: SpanAttributeMap<QueryData> = { name: 'tabel' };
+
+    tracingChannel<QueryData>('span-definition:types', {
+      tracerName: 'test',
+      name: 'query',
+      // @ts-expect-error - `tabel` is not a key of the channel data
+      attributes: { 'db.collection.name': 'tabel' },
+    });
+
+    expectTypeOf(attributes).not.toBeAny();
+  });
+
+  it('should reject selectors returning values that are not attribute values', () => {
+    const attributes: SpanAttributeMap<QueryData> = {
+      // @ts-expect-error - objects are not attribute values
+      'db.query': (data) => ({ table: data.table }),
+    };
+
+    expectTypeOf(attributes).not.toBeAny();
+  });
+});
+
+describe('SpanDefinition', () => {
+  it('should pass the channel data to the name and links functions', () => {
+    const definition: SpanDefinition<QueryData> = {
+      tracerName: 'test',
+      name: (data) => {
+        expectTypeOf(data).toEqualTypeOf<QueryData>();
+        return `query ${data.table}`;
+      },
+      links: (data) => {
+        expectTypeOf(data).toEqualTypeOf<QueryData>();
+        return [];
+      },
+    };
+
+    expectTypeOf(definition).not.toBeAny();
+  });
+
+  it('should reject name functions not returning a string', () => {
+    tracingChannel<QueryData>('span-definition:name-types', {
+      tracerName: 'test',
+      // @ts-expect-error - span names are strings
+      name: (data) => data.rows,
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { SpanKind } from '@opentelemetry/api';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { createSpanTransform } from '../src/spanDefinition';
+import { setLogger, tracingChannel, type LogRecord } from '../src';
+import { useTestTracing } from './helpers';
+
+describe('createSpanTransform', () => {
+  const tracing = useTestTracing();
+
+  function finish(span: ReturnType<ReturnType<typeof createSpanTransform>>) {
+    span.end();
+    return tracing.getFinishedSpans().at(-1) as ReadableSpan;
+  }
+
+  it('should create spans with the tracer name and version', () => {
+    const transform = createSpanTransform({
+      tracerName: 'my-lib',
+      tracerVersion: '1.2.3',
+      tracerProvider: tracing.tracerProvider,
+      name: 'operation',
+    });
+
+    const span = finish(transform({}));
+
+    expect(span.name).toBe('operation');
+    expect(span.instrumentationScope).toMatchObject({
+      name: 'my-lib',
+      version: '1.2.3',
+    });
+  });
+
+  it('should render span name templates from the data', () => {
+    const transform = createSpanTransform<{
+      table: string;
+      db: { name: string };
+    }>({
+      tracerName: 'my-lib',
+      tracerProvider: tracing.tracerProvider,
+      name: 'db.query {data.db.name}.{data.table}',
+    });
+
+    expect(
+      finish(transform({ table: 'users', db: { name: 'app' } })).name,
+    ).toBe('db.query app.users');
+  });
+
+  it('should render missing template values as empty', () => {
+    const transform = createSpanTransform<{ table?: string }>({
+      tracerName: 'my-lib',
+      tracerProvider: tracing.tracerProvider,
+      name: 'db.query {data.table}',
+    });
+
+    expect(finish(transform({})).name).toBe('db.query');
+  });
+
+  it('should support span name functions', () => {
+    const transform = createSpanTransform<{ method: string }>({
+      tracerName: 'my-lib',
+      tracerProvider: tracing.tracerProvider,
+      name: (data) => data.method.toUpperCase(),
+    });
+
+    expect(finish(transform({ method: 'get' })).name).toBe('GET');
+  });
+
+  it('should set the span kind', () => {
+    const transform = createSpanTransform({
+      tracerName: 'my-lib',
+      tracerProvider: tracing.tracerProvider,
+      name: 'request',
+      kind: SpanKind.CLIENT,
+    });
+
+    expect(finish(transform({})).kind).toBe(SpanKind.CLIENT);
+  });
+
+  it('should map attributes from data keys and selectors', () => {
+    const transform = createSpanTransform<{
+      table: string;
+      params: unknown[];
+      options: object;
+      missing?: string;
+    }>({
+      tracerName: 'my-lib',
+      tracerProvider: tracing.tracerProvider,
+      name: 'query',
+      attributes: {
+        'db.collection.name': 'table',
+        'db.params.count': (data) => data.params.length,
+        'db.system': () => 'postgresql',
+        'db.options': 'options',
+        'db.missing': 'missing',
+      },
+    });
+
+    const span = finish(
+      transform({ table: 'users', params: [1, 2], options: { a: 1 } }),
+    );
+
+    expect(span.attributes).toEqual({
+      'db.collection.name': 'users',
+      'db.params.count': 2,
+      'db.system': 'postgresql',
+    });
+  });
+
+  it('should add links', () => {
+    const linked = tracing.tracerProvider
+      .getTracer('other')
+      .startSpan('linked');
+    const transform = createSpanTransform<{ linkedSpan: typeof linked }>({
+      tracerName: 'my-lib',
+      tracerProvider: tracing.tracerProvider,
+      name: 'batch',
+      links: (data) => [{ context: data.linkedSpan.spanContext() }],
+    });
+
+    const span = finish(transform({ linkedSpan: linked }));
+
+    expect(span.links).toHaveLength(1);
+    expect(span.links[0].context.spanId).toBe(linked.spanContext().spanId);
+  });
+
+  it('should use the global tracer provider by default', () => {
+    const transform = createSpanTransform({
+      tracerName: 'my-lib',
+      name: 'global',
+    });
+    expect(finish(transform({})).name).toBe('global');
+  });
+});
+
+describe('tracingChannel with a span definition', () => {
+  const tracing = useTestTracing();
+
+  it('should create spans from the definition and parent children', async () => {
+    const channel = tracingChannel<{ table: string }>(
+      'span-definition',
+      {
+        tracerName: 'my-lib',
+        tracerProvider: tracing.tracerProvider,
+        name: 'db.query {data.table}',
+        kind: SpanKind.CLIENT,
+        attributes: { 'db.collection.name': 'table' },
+      },
+      { autoEnd: true },
+    );
+
+    await channel.tracePromise(
+      async () => {
+        tracing.tracerProvider.getTracer('test').startSpan('child').end();
+      },
+      { table: 'users' },
+    );
+
+    const [child, parent] = tracing.getFinishedSpans();
+    expect(parent.name).toBe('db.query users');
+    expect(parent.kind).toBe(SpanKind.CLIENT);
+    expect(parent.attributes).toEqual({ 'db.collection.name': 'users' });
+    expect(child.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+  });
+
+  it('should log errors thrown by the functions of the definition', () => {
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    using channel = tracingChannel<{ user?: { id: string }; table: string }>(
+      'span-definition-throw',
+      {
+        tracerName: 'my-lib',
+        tracerProvider: tracing.tracerProvider,
+        name: (data) => `query ${data.user!.id}`,
+        attributes: {
+          'user.id': (data) => data.user!.id,
+          'db.collection.name': 'table',
+        },
+        links: (data) => [{ context: data.user!.id as never }],
+      },
+      { autoEnd: true },
+    );
+
+    expect(channel.traceSync(() => 'result', { table: 'users' })).toBe(
+      'result',
+    );
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span.name).toBe('span-definition-throw');
+    expect(span.attributes).toEqual({ 'db.collection.name': 'users' });
+    expect(span.links).toEqual([]);
+    expect(
+      records.map(({ level, channel, event, message }) => ({
+        level,
+        channel,
+        event,
+        message,
+      })),
+    ).toEqual(
+      ['attributes.user.id', 'definition.name', 'definition.links'].map(
+        (option) => ({
+          level: 'error',
+          channel: 'span-definition-throw',
+          event: 'start',
+          message: `"${option}" threw an error`,
+        }),
+      ),
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { context, ROOT_CONTEXT, type Context } from '@opentelemetry/api';
+import {
+  AsyncHooksContextManager,
+  AsyncLocalStorageContextManager,
+} from '@opentelemetry/context-async-hooks';
+import { globalContextStorage, resolveContextStorage } from '../src/storage';
+
+describe('resolveContextStorage', () => {
+  afterEach(() => {
+    context.disable();
+  });
+
+  it('should use an explicitly passed AsyncLocalStorage', () => {
+    const storage = new AsyncLocalStorage<Context>();
+
+    expect(resolveContextStorage(storage)).toEqual({
+      storage,
+      strategy: 'storage',
+    });
+  });
+
+  it('should find the AsyncLocalStorage of an explicitly passed context manager', () => {
+    const contextManager = new AsyncLocalStorageContextManager();
+    const { storage, strategy } = resolveContextStorage(contextManager);
+
+    expect(strategy).toBe('context-manager');
+    expect(storage).toBeInstanceOf(AsyncLocalStorage);
+
+    const active = storage!.run(ROOT_CONTEXT, () => contextManager.active());
+    expect(active).toBe(ROOT_CONTEXT);
+  });
+
+  it('should find an AsyncLocalStorage stored under any field of a custom context manager', () => {
+    const renamedStorage = new AsyncLocalStorage<Context>();
+    const contextManager = {
+      renamedStorage,
+      active: () => renamedStorage.getStore() ?? ROOT_CONTEXT,
+      with: (_ctx: Context, fn: () => unknown) => fn(),
+      bind: <T>(_ctx: Context, target: T) => target,
+      enable() {
+        return this;
+      },
+      disable() {
+        return this;
+      },
+    };
+
+    expect(resolveContextStorage(contextManager)).toEqual({
+      storage: renamedStorage,
+      strategy: 'context-manager',
+    });
+  });
+
+  it('should report none for context managers not backed by AsyncLocalStorage', () => {
+    expect(resolveContextStorage(new AsyncHooksContextManager())).toEqual({
+      strategy: 'none',
+    });
+  });
+
+  it('should detect the global context manager', () => {
+    const contextManager = new AsyncLocalStorageContextManager();
+    context.setGlobalContextManager(contextManager);
+
+    const { storage, strategy } = resolveContextStorage();
+
+    expect(strategy).toBe('global-context-manager');
+    expect(storage).toBe(
+      (contextManager as unknown as { _asyncLocalStorage: unknown })
+        ._asyncLocalStorage,
+    );
+  });
+
+  it('should report none when no global context manager is registered', () => {
+    expect(resolveContextStorage()).toEqual({ strategy: 'none' });
+  });
+});
+
+describe('globalContextStorage', () => {
+  afterEach(() => {
+    context.disable();
+  });
+
+  it('should run the function directly when no context manager is registered', () => {
+    expect(globalContextStorage.resolve()).toBeUndefined();
+    expect(
+      globalContextStorage.run(ROOT_CONTEXT, (a: number) => a + 1, 1),
+    ).toBe(2);
+  });
+
+  it('should follow the global context manager as it is registered and replaced', () => {
+    const first = new AsyncLocalStorageContextManager();
+    context.setGlobalContextManager(first);
+    expect(globalContextStorage.resolve()).toBe(
+      resolveContextStorage(first).storage,
+    );
+
+    context.disable();
+    const second = new AsyncLocalStorageContextManager();
+    context.setGlobalContextManager(second);
+    expect(globalContextStorage.resolve()).toBe(
+      resolveContextStorage(second).storage,
+    );
+  });
+
+  it('should enter the resolved storage', () => {
+    const contextManager = new AsyncLocalStorageContextManager();
+    context.setGlobalContextManager(contextManager);
+
+    const active = globalContextStorage.run(ROOT_CONTEXT, () =>
+      contextManager.active(),
+    );
+    expect(active).toBe(ROOT_CONTEXT);
+  });
+});
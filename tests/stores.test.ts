@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  listChannels,
+  setLogger,
+  tracingChannel,
+  type LogRecord,
+} from '../src';
+import { useTestTracing } from './helpers';
+
+interface LogContext {
+  traceId?: string;
+  spanId?: string;
+  tenant?: string;
+}
+
+describe('extra stores', () => {
+  const tracing = useTestTracing();
+  const logContext = new AsyncLocalStorage<LogContext>();
+
+  const logStore = {
+    store: logContext,
+    transform: (data: { tenant?: string }, span: any) => ({
+      ...span?.spanContext(),
+      tenant: data.tenant,
+    }),
+  };
+
+  it('should set the stores from the span during the operation', () => {
+    using channel = tracingChannel(
+      'stores:sync',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, stores: [logStore] },
+    );
+
+    const data: any = { tenant: 'acme' };
+    const inside = logContext.run({ tenant: 'outer' }, () => {
+      const value = channel.traceSync(() => logContext.getStore(), data);
+
+      expect(logContext.getStore()).toEqual({ tenant: 'outer' });
+      return value;
+    });
+
+    const { traceId, spanId } = data.span.spanContext();
+    expect(inside).toMatchObject({ traceId, spanId, tenant: 'acme' });
+  });
+
+  it('should restore the stores in callbacks', async () => {
+    using channel = tracingChannel(
+      'stores:callback',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, stores: [logStore] },
+    );
+
+    const data: any = { tenant: 'acme' };
+    const inCallback = await new Promise<LogContext | undefined>((resolve) => {
+      channel.traceCallback(
+        (callback: () => void) => {
+          // Invoked outside of the operation context
+          logContext.run({}, () => setImmediate(callback));
+        },
+        -1,
+        data,
+        undefined,
+        () => resolve(logContext.getStore()),
+      );
+    });
+
+    expect(inCallback).toMatchObject({
+      spanId: data.span.spanContext().spanId,
+      tenant: 'acme',
+    });
+  });
+
+  it('should keep the current value when a transform throws', () => {
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    using channel = tracingChannel(
+      'stores:throw',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        autoEnd: true,
+        stores: [
+          {
+            name: 'broken',
+            store: logContext,
+            transform: () => {
+              throw new Error('broken');
+            },
+          },
+        ],
+      },
+    );
+
+    const inside = logContext.run({ tenant: 'outer' }, () =>
+      channel.traceSync(() => logContext.getStore(), {}),
+    );
+
+    expect(inside).toEqual({ tenant: 'outer' });
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+    expect(records).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        channel: 'stores:throw',
+        message: 'Store "broken" transform failed',
+      }),
+    ]);
+  });
+
+  it('should list and unbind the stores with the channel', () => {
+    const transform = vi.fn(() => ({ tenant: 'acme' }));
+    const channel = tracingChannel(
+      'stores:unbind',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        autoEnd: true,
+        stores: [logStore, { name: 'tenant', store: logContext, transform }],
+      },
+    );
+
+    expect(
+      listChannels().find((info) => info.name === 'stores:unbind')?.stores,
+    ).toEqual(['transform', 'tenant']);
+
+    channel.unbind();
+    channel.traceSync(() => logContext.getStore(), {});
+
+    expect(transform).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { tracingChannel } from '../src';
+import { useTestTracing } from './helpers';
+
+describe('testing', () => {
+  const tracing = useTestTracing();
+
+  describe('setupTestTracing', () => {
+    it('should register the tracer provider and context manager globally', () => {
+      tracing.tracer.startActiveSpan('parent', (parent) => {
+        trace.getTracer('global').startSpan('child').end();
+        parent.end();
+      });
+
+      tracing.expectSpanTree({ name: 'parent', children: [{ name: 'child' }] });
+    });
+
+    it('should reset the finished spans', () => {
+      tracing.tracer.startSpan('operation').end();
+      tracing.reset();
+
+      expect(tracing.getFinishedSpans()).toEqual([]);
+    });
+  });
+
+  describe('expectSpanTree', () => {
+    it('should match nested spans created through channels', async () => {
+      using request = tracingChannel(
+        'testing-request',
+        () => tracing.tracer.startSpan('request', { kind: SpanKind.SERVER }),
+        { autoEnd: true },
+      );
+      using query = tracingChannel<{ table: string }>(
+        'testing-query',
+        (data) =>
+          tracing.tracer.startSpan('query', {
+            attributes: { 'db.collection.name': data.table },
+          }),
+        { autoEnd: true },
+      );
+
+      await request.tracePromise(async () => {
+        await query.tracePromise(async () => 'users', { table: 'users' });
+        await query.tracePromise(async () => 'posts', { table: 'posts' });
+      }, {});
+
+      tracing.expectSpanTree({
+        name: 'request',
+        kind: SpanKind.SERVER,
+        children: [
+          { name: 'query', attributes: { 'db.collection.name': 'posts' } },
+          { name: 'query', attributes: { 'db.collection.name': 'users' } },
+        ],
+      });
+    });
+
+    it('should match subtrees below the root', () => {
+      using channel = tracingChannel(
+        'testing-subtree',
+        () => tracing.tracer.startSpan('operation'),
+        { autoEnd: true },
+      );
+
+      tracing.tracer.startActiveSpan('root', (root) => {
+        channel.traceSync(() => 'result', {});
+        root.end();
+      });
+
+      tracing.expectSpanTree({ name: 'operation', children: [] });
+    });
+
+    it('should match the span status', () => {
+      using channel = tracingChannel(
+        'testing-status',
+        () => tracing.tracer.startSpan('operation'),
+        { autoEnd: true },
+      );
+
+      expect(() =>
+        channel.traceSync(() => {
+          throw new Error('Failed');
+        }, {}),
+      ).toThrow('Failed');
+
+      tracing.expectSpanTree({
+        name: 'operation',
+        status: SpanStatusCode.ERROR,
+      });
+      expect(() =>
+        tracing.expectSpanTree({
+          name: 'operation',
+          status: SpanStatusCode.OK,
+        }),
+      ).toThrow('No span tree matched');
+    });
+
+    it('should fail when the children differ', () => {
+      tracing.tracer.startActiveSpan('parent', (parent) => {
+        tracing.tracer.startSpan('child').end();
+        parent.end();
+      });
+
+      expect(() =>
+        tracing.expectSpanTree({
+          name: 'parent',
+          children: [{ name: 'child' }, { name: 'child' }],
+        }),
+      ).toThrow('No span tree matched');
+      expect(() =>
+        tracing.expectSpanTree({ name: 'parent', children: [] }),
+      ).toThrow('No span tree matched');
+    });
+
+    it('should fail when spans are siblings instead of nested', () => {
+      tracing.tracer.startSpan('first').end();
+      tracing.tracer.startSpan('second').end();
+
+      expect(() =>
+        tracing.expectSpanTree({
+          name: 'first',
+          children: [{ name: 'second' }],
+        }),
+      ).toThrow('No span tree matched');
+    });
+
+    it('should show the expected and captured trees in the error', () => {
+      tracing.tracer.startActiveSpan('parent', (parent) => {
+        tracing.tracer.startSpan('child').end();
+        parent.end();
+      });
+
+      let message = '';
+      try {
+        tracing.expectSpanTree({
+          name: 'parent',
+          children: [{ name: 'other' }],
+        });
+      } catch (error) {
+        message = (error as Error).message;
+      }
+
+      expect(message).toContain('Expected:\n  parent\n    other');
+      expect(message).toMatch(/Captured:\n {2}parent .*\n {4}child /);
+    });
+  });
+
+  describe('getSpanTrees', () => {
+    it('should arrange spans by parent and start time', () => {
+      tracing.tracer.startActiveSpan('parent', (parent) => {
+        tracing.tracer.startSpan('first').end();
+        tracing.tracer.startSpan('second').end();
+        parent.end();
+      });
+      tracing.tracer.startSpan('other').end();
+
+      const trees = tracing.getSpanTrees();
+
+      expect(trees.map((node) => node.span.name)).toEqual(['parent', 'other']);
+      expect(trees[0]?.children.map((node) => node.span.name)).toEqual([
+        'first',
+        'second',
+      ]);
+    });
+  });
+});
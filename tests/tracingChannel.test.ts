@@ -1,7 +1,29 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { tracingChannel, setDebugFlag } from '../src';
-import { context, type Span } from '@opentelemetry/api';
+import {
+  tracingChannel,
+  setDebugFlag,
+  getContextStorageStrategy,
+  defineTracingChannel,
+  listChannels,
+  recordSpanError,
+  defaultClassifyError,
+  setLogger,
+  type LogRecord,
+} from '../src';
+import {
+  context,
+  propagation,
+  trace,
+  SpanStatusCode,
+  TraceFlags,
+  type Context,
+  type Span,
+} from '@opentelemetry/api';
 import { tracingChannel as nativeTracingChannel } from 'node:diagnostics_channel';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { setupTestTracing } from '../src/testing';
+import { useTestTracing } from './helpers';
 
 describe('tracingChannel', () => {
   beforeEach(() => {
@@ -10,7 +32,7 @@ describe('tracingChannel', () => {
 
   it('should create a tracing channel from a string name', () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     expect(channel).toBeDefined();
     expect(typeof channel.subscribe).toBe('function');
@@ -23,13 +45,17 @@ describe('tracingChannel', () => {
     const nativeChannel = nativeTracingChannel('test-channel');
     const channel = tracingChannel(nativeChannel, () => mockSpan);
 
-    expect(channel).toBe(nativeChannel);
+    expect(channel).not.toBe(nativeChannel);
+    expect(channel.start).toBe(nativeChannel.start);
+    expect(nativeChannel).not.toHaveProperty('unbind');
+
+    channel.unbind();
   });
 
   it('should call transformStart during channel execution if OTel context is available', () => {
     const mockSpan = createMockSpan();
     const transformStart = vi.fn(() => mockSpan);
-    const channel = tracingChannel('test-channel', transformStart);
+    using channel = tracingChannel('test-channel', transformStart);
 
     channel.traceSync(() => 'result', { foo: 'bar' });
 
@@ -45,7 +71,7 @@ describe('tracingChannel', () => {
 
   it('should store the created span on the data object when context is available', () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     const data: any = { foo: 'bar' };
     channel.traceSync(() => 'result', data);
@@ -59,7 +85,7 @@ describe('tracingChannel', () => {
 
   it('should allow subscribers to access events', () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     const endHandler = vi.fn();
     channel.subscribe({
@@ -87,7 +113,7 @@ describe('tracingChannel', () => {
       return mockSpan;
     });
 
-    const channel = tracingChannel<MyData>('test-channel', transformStart);
+    using channel = tracingChannel<MyData>('test-channel', transformStart);
 
     // Even if transformStart isn't called (no OTel context), the channel should work
     expect(() => {
@@ -107,7 +133,7 @@ describe('tracingChannel', () => {
 
     // Should not throw, just log a debug message
     expect(() => {
-      tracingChannel('test-channel', () => mockSpan);
+      tracingChannel('test-channel', () => mockSpan).unbind();
     }).not.toThrow();
 
     // Restore
@@ -121,7 +147,7 @@ describe('tracingChannel', () => {
     const originalGetContextManager = (context as any)._getContextManager;
     (context as any)._getContextManager = () => ({ _asyncLocalStorage: null });
 
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     expect(channel).toBeDefined();
     expect(typeof channel.traceSync).toBe('function');
@@ -132,7 +158,7 @@ describe('tracingChannel', () => {
 
   it('should pass return value through', () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     const syncResult = channel.traceSync(() => 42, {});
     expect(syncResult).toBe(42);
@@ -140,7 +166,7 @@ describe('tracingChannel', () => {
 
   it('should pass return value through for async operations', async () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     const asyncResult = await channel.tracePromise(async () => 'hello', {});
     expect(asyncResult).toBe('hello');
@@ -148,7 +174,7 @@ describe('tracingChannel', () => {
 
   it('should propagate errors from sync operations', () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     expect(() => {
       channel.traceSync(() => {
@@ -159,7 +185,7 @@ describe('tracingChannel', () => {
 
   it('should propagate errors from async operations', async () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     await expect(
       channel.tracePromise(async () => {
@@ -170,7 +196,7 @@ describe('tracingChannel', () => {
 
   it('should support error handlers', () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     const errorHandler = vi.fn();
     channel.subscribe({
@@ -191,7 +217,7 @@ describe('tracingChannel', () => {
 
   it('should call handlers in correct order for async operations', async () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     const calls: string[] = [];
 
@@ -213,7 +239,7 @@ describe('tracingChannel', () => {
 
   it('should work without any subscribers', () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     // Should not throw
     expect(() => {
@@ -223,7 +249,7 @@ describe('tracingChannel', () => {
 
   it('should handle async operations without subscribers', async () => {
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     // Should not throw
     await expect(channel.tracePromise(async () => 'result', {})).resolves.toBe(
@@ -233,9 +259,12 @@ describe('tracingChannel', () => {
 
   it('should log a warning when transformStart returns a non-span value', () => {
     const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const consoleWarnSpy = vi
+      .spyOn(console, 'warn')
+      .mockImplementation(() => {});
     setDebugFlag(true);
 
-    const channel = tracingChannel('test-channel', () => {
+    using channel = tracingChannel('test-channel', () => {
       // Return a non-span object
       return { notASpan: true } as any;
     });
@@ -245,7 +274,7 @@ describe('tracingChannel', () => {
 
     // Should have logged a warning about non-span return value
     // (only if OTel context is available - if not, the transform won't be called)
-    const warningLogs = consoleLogSpy.mock.calls.filter((call) =>
+    const warningLogs = consoleWarnSpy.mock.calls.filter((call) =>
       call.some(
         (arg) =>
           typeof arg === 'string' &&
@@ -273,21 +302,24 @@ describe('tracingChannel', () => {
     }
 
     consoleLogSpy.mockRestore();
+    consoleWarnSpy.mockRestore();
     setDebugFlag(false);
   });
 
   it('should not log a warning when transformStart returns a valid span', () => {
-    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const consoleWarnSpy = vi
+      .spyOn(console, 'warn')
+      .mockImplementation(() => {});
     setDebugFlag(true);
 
     const mockSpan = createMockSpan();
-    const channel = tracingChannel('test-channel', () => mockSpan);
+    using channel = tracingChannel('test-channel', () => mockSpan);
 
     // Trigger the channel
     channel.traceSync(() => 'result', {});
 
     // Should NOT have logged a warning about non-span return value
-    const warningLogs = consoleLogSpy.mock.calls.filter((call) =>
+    const warningLogs = consoleWarnSpy.mock.calls.filter((call) =>
       call.some(
         (arg) =>
           typeof arg === 'string' &&
@@ -298,13 +330,13 @@ describe('tracingChannel', () => {
 
     expect(warningLogs.length).toBe(0);
 
-    consoleLogSpy.mockRestore();
+    consoleWarnSpy.mockRestore();
     setDebugFlag(false);
   });
 
   it('should NOT store non-span values on data.span', () => {
     const nonSpanValue = { notASpan: true };
-    const channel = tracingChannel('test-channel', () => nonSpanValue as any);
+    using channel = tracingChannel('test-channel', () => nonSpanValue as any);
 
     const data: any = { foo: 'bar' };
     channel.traceSync(() => 'result', data);
@@ -349,7 +381,7 @@ describe('debug logging integration', () => {
     setDebugFlag(false);
 
     const mockSpan = createMockSpan();
-    tracingChannel('test-channel', () => mockSpan);
+    tracingChannel('test-channel', () => mockSpan).unbind();
 
     // Debug logs should not be called
     const debugCalls = consoleLogSpy.mock.calls.filter((call) =>
@@ -363,6 +395,1592 @@ describe('debug logging integration', () => {
   });
 });
 
+describe('autoEnd', () => {
+  const tracing = useTestTracing();
+
+  it('should end sync spans at the end event', () => {
+    const channel = tracingChannel(
+      'auto-end-sync',
+      () => tracing.tracer.startSpan('sync-op'),
+      { autoEnd: true },
+    );
+
+    channel.traceSync(() => 'result', {});
+
+    const spans = tracing.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].name).toBe('sync-op');
+    expect(spans[0].status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should end promise spans only once the promise settles', async () => {
+    const channel = tracingChannel(
+      'auto-end-promise',
+      () => tracing.tracer.startSpan('promise-op'),
+      { autoEnd: true },
+    );
+
+    let resolve!: () => void;
+    const promise = channel.tracePromise(
+      () => new Promise<void>((r) => (resolve = r)),
+      {},
+    );
+
+    expect(tracing.getFinishedSpans()).toHaveLength(0);
+
+    resolve();
+    await promise;
+
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should end callback spans when the callback is invoked', async () => {
+    const channel = tracingChannel(
+      'auto-end-callback',
+      () => tracing.tracer.startSpan('callback-op'),
+      { autoEnd: true },
+    );
+
+    await new Promise<void>((done) => {
+      channel.traceCallback(
+        (cb: (err: unknown, result?: string) => void) => {
+          setTimeout(() => cb(null, 'result'), 1);
+        },
+        -1,
+        {},
+        undefined,
+        () => {
+          expect(tracing.getFinishedSpans()).toHaveLength(0);
+          done();
+        },
+      );
+    });
+
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should record sync errors and end the span exactly once', () => {
+    const channel = tracingChannel(
+      'auto-end-sync-error',
+      () => tracing.tracer.startSpan('sync-error'),
+      { autoEnd: true },
+    );
+
+    expect(() =>
+      channel.traceSync(() => {
+        throw new Error('boom');
+      }, {}),
+    ).toThrow('boom');
+
+    const spans = tracing.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'boom',
+    });
+    expect(spans[0].events.map((e) => e.name)).toEqual(['exception']);
+  });
+
+  it('should record async rejections and end the span exactly once', async () => {
+    const endSpy = vi.fn();
+    const channel = tracingChannel(
+      'auto-end-async-error',
+      () => {
+        const span = tracing.tracer.startSpan('async-error');
+        const end = span.end.bind(span);
+        span.end = (...args) => {
+          endSpy();
+          end(...args);
+        };
+        return span;
+      },
+      { autoEnd: true },
+    );
+
+    await expect(
+      channel.tracePromise(async () => {
+        throw new Error('async boom');
+      }, {}),
+    ).rejects.toThrow('async boom');
+
+    expect(endSpy).toHaveBeenCalledTimes(1);
+    const spans = tracing.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].status.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  it('should end the span of every operation reusing the same data', async () => {
+    const resultAttributes = vi.fn(() => ({ done: true }));
+    using channel = tracingChannel(
+      'auto-end-reused-data',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, resultAttributes },
+    );
+
+    const data = { table: 'users' };
+    expect(() =>
+      channel.traceSync(() => {
+        throw new Error('failed');
+      }, data),
+    ).toThrow('failed');
+    channel.traceSync(() => 'first', data);
+    channel.traceSync(() => 'first', data);
+    await channel.tracePromise(async () => 'second', data);
+
+    const spans = tracing.getFinishedSpans();
+    expect(spans).toHaveLength(4);
+    expect(spans.map((span) => span.attributes)).toEqual([
+      { 'error.type': 'Error' },
+      { done: true },
+      { done: true },
+      { done: true },
+    ]);
+    expect(resultAttributes).toHaveBeenCalledTimes(3);
+    expect(data).toMatchObject({ table: 'users', result: 'second' });
+  });
+
+  it('should end promise spans once settled when the data has a result', async () => {
+    using channel = tracingChannel(
+      'auto-end-promise-result-data',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true },
+    );
+
+    let resolve!: (value: string) => void;
+    const data: any = { result: 'initial' };
+    const promise = channel.tracePromise(
+      () => new Promise<string>((r) => (resolve = r)),
+      data,
+    );
+
+    expect(tracing.getFinishedSpans()).toHaveLength(0);
+    expect(data.result).toBe('initial');
+
+    resolve('settled');
+    await promise;
+
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+    expect(Object.getOwnPropertyDescriptor(data, 'result')).toEqual({
+      value: 'settled',
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  });
+
+  it('should end promise spans when the function throws synchronously', () => {
+    const channel = tracingChannel(
+      'auto-end-promise-sync-throw',
+      () => tracing.tracer.startSpan('promise-sync-throw'),
+      { autoEnd: true },
+    );
+
+    expect(() =>
+      channel.tracePromise(() => {
+        throw new Error('sync throw');
+      }, {}),
+    ).toThrow('sync throw');
+
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should map the result to span attributes', async () => {
+    const channel = tracingChannel<{ table: string }>(
+      'auto-end-result-attributes',
+      () => tracing.tracer.startSpan('query'),
+      {
+        autoEnd: true,
+        resultAttributes: (result, data) => ({
+          'db.rows': (result as unknown[]).length,
+          'db.table': data.table,
+        }),
+      },
+    );
+
+    await channel.tracePromise(async () => [1, 2, 3], { table: 'users' });
+
+    expect(tracing.getFinishedSpans()[0].attributes).toEqual({
+      'db.rows': 3,
+      'db.table': 'users',
+    });
+  });
+
+  it('should log errors thrown by resultAttributes and still end the span', async () => {
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    using channel = tracingChannel(
+      'auto-end-result-attributes-throw',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        autoEnd: true,
+        resultAttributes: () => {
+          throw new Error('mapping failed');
+        },
+      },
+    );
+
+    await expect(channel.tracePromise(async () => 'result', {})).resolves.toBe(
+      'result',
+    );
+
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+    expect(records).toMatchObject([
+      {
+        level: 'error',
+        message: '"resultAttributes" threw an error',
+        channel: 'auto-end-result-attributes-throw',
+        event: 'end',
+      },
+    ]);
+  });
+
+  it('should not leave spans open when not enabled', () => {
+    const channel = tracingChannel('auto-end-disabled', () =>
+      tracing.tracer.startSpan('manual'),
+    );
+
+    const data: any = {};
+    channel.traceSync(() => 'result', data);
+
+    expect(tracing.getFinishedSpans()).toHaveLength(0);
+    data.span.end();
+  });
+});
+
+describe('traceCallback', () => {
+  const tracing = useTestTracing();
+
+  type Callback = (err: unknown, result?: string) => void;
+
+  it('should call handlers in correct order for callback operations', async () => {
+    const channel = tracingChannel('callback-order', () =>
+      tracing.tracer.startSpan('callback-order'),
+    );
+
+    const calls: string[] = [];
+
+    channel.subscribe({
+      start: () => calls.push('start'),
+      asyncStart: () => calls.push('asyncStart'),
+      asyncEnd: () => calls.push('asyncEnd'),
+      end: () => calls.push('end'),
+    } as any);
+
+    await new Promise<void>((done) => {
+      channel.traceCallback(
+        (cb: Callback) => {
+          calls.push('fn');
+          setTimeout(() => cb(null, 'result'), 1);
+        },
+        -1,
+        {},
+        undefined,
+        () => {
+          calls.push('callback');
+          setImmediate(done);
+        },
+      );
+    });
+
+    expect(calls).toEqual([
+      'start',
+      'fn',
+      'end',
+      'asyncStart',
+      'callback',
+      'asyncEnd',
+    ]);
+  });
+
+  it('should pass the result and error to the callback', async () => {
+    const channel = tracingChannel('callback-args', () =>
+      tracing.tracer.startSpan('callback-args'),
+    );
+
+    const result = await new Promise((done) => {
+      channel.traceCallback(
+        (cb: Callback) => setTimeout(() => cb(null, 'hello'), 1),
+        -1,
+        {},
+        undefined,
+        (_err: unknown, res?: string) => done(res),
+      );
+    });
+    expect(result).toBe('hello');
+
+    const error = await new Promise((done) => {
+      channel.traceCallback(
+        (cb: Callback) => setTimeout(() => cb(new Error('cb error')), 1),
+        -1,
+        {},
+        undefined,
+        (err: unknown) => done(err),
+      );
+    });
+    expect((error as Error).message).toBe('cb error');
+  });
+
+  it('should make the span active inside the callback', async () => {
+    const channel = tracingChannel('callback-active', () =>
+      tracing.tracer.startSpan('callback-active'),
+    );
+
+    const data: any = {};
+    const activeSpan = await new Promise((done) => {
+      channel.traceCallback(
+        (cb: Callback) => setTimeout(() => cb(null), 1),
+        -1,
+        data,
+        undefined,
+        () => done(trace.getActiveSpan()),
+      );
+    });
+
+    expect(activeSpan).toBe(data.span);
+    data.span.end();
+  });
+
+  it('should restore the span even when the callback is invoked from another context', () => {
+    const channel = tracingChannel('callback-foreign-context', () =>
+      tracing.tracer.startSpan('callback-foreign-context'),
+    );
+
+    // Simulates a connection pool that invokes queued callbacks from its own context
+    const queue: Callback[] = [];
+    const data: any = {};
+    let activeSpan: Span | undefined;
+
+    channel.traceCallback(
+      (cb: Callback) => {
+        queue.push(cb);
+      },
+      -1,
+      data,
+      undefined,
+      () => {
+        activeSpan = trace.getActiveSpan();
+      },
+    );
+
+    expect(trace.getActiveSpan()).toBeUndefined();
+    queue.shift()?.(null);
+
+    expect(activeSpan).toBe(data.span);
+    data.span.end();
+  });
+
+  it('should parent spans started inside the callback', async () => {
+    const channel = tracingChannel(
+      'callback-nested',
+      () => tracing.tracer.startSpan('parent'),
+      { autoEnd: true },
+    );
+
+    await new Promise<void>((done) => {
+      channel.traceCallback(
+        (cb: Callback) => setTimeout(() => cb(null), 1),
+        -1,
+        {},
+        undefined,
+        () => {
+          tracing.tracer.startSpan('child').end();
+          setImmediate(done);
+        },
+      );
+    });
+
+    const spans = tracing.getFinishedSpans();
+    const parent = spans.find((span) => span.name === 'parent');
+    const child = spans.find((span) => span.name === 'child');
+
+    expect(child?.parentSpanContext?.spanId).toBe(parent?.spanContext().spanId);
+    expect(child?.spanContext().traceId).toBe(parent?.spanContext().traceId);
+  });
+
+  it('should parent nested callback channels', async () => {
+    const outer = tracingChannel(
+      'callback-nested-outer',
+      () => tracing.tracer.startSpan('outer'),
+      { autoEnd: true },
+    );
+    const inner = tracingChannel(
+      'callback-nested-inner',
+      () => tracing.tracer.startSpan('inner'),
+      { autoEnd: true },
+    );
+
+    await new Promise<void>((done) => {
+      outer.traceCallback(
+        (cb: Callback) => {
+          inner.traceCallback(
+            (innerCb: Callback) => setTimeout(() => innerCb(null), 1),
+            -1,
+            {},
+            undefined,
+            () => cb(null),
+          );
+        },
+        -1,
+        {},
+        undefined,
+        () => setImmediate(done),
+      );
+    });
+
+    const spans = tracing.getFinishedSpans();
+    const outerSpan = spans.find((span) => span.name === 'outer');
+    const innerSpan = spans.find((span) => span.name === 'inner');
+
+    expect(innerSpan?.parentSpanContext?.spanId).toBe(
+      outerSpan?.spanContext().spanId,
+    );
+  });
+});
+
+describe('context storage resolution', () => {
+  it('should bind an explicitly passed AsyncLocalStorage', () => {
+    const storage = new AsyncLocalStorage<Context>();
+    const mockSpan = createMockSpan();
+    const channel = tracingChannel('explicit-storage', () => mockSpan, {
+      storage,
+    });
+
+    const activeSpan = channel.traceSync(
+      () => trace.getSpan(storage.getStore()!),
+      {},
+    );
+
+    expect(activeSpan).toBe(mockSpan);
+    expect(getContextStorageStrategy(channel)).toBe('storage');
+  });
+
+  it('should bind the storage of an explicitly passed context manager', () => {
+    const contextManager = new AsyncLocalStorageContextManager();
+    const mockSpan = createMockSpan();
+    const channel = tracingChannel('explicit-context-manager', () => mockSpan, {
+      storage: contextManager,
+    });
+
+    const activeSpan = channel.traceSync(
+      () => trace.getSpan(contextManager.active()),
+      {},
+    );
+
+    expect(activeSpan).toBe(mockSpan);
+    expect(getContextStorageStrategy(channel)).toBe('context-manager');
+  });
+
+  it('should report the global context manager strategy', () => {
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager());
+    const channel = tracingChannel('global-context-manager', () =>
+      createMockSpan(),
+    );
+
+    expect(getContextStorageStrategy(channel)).toBe('global-context-manager');
+    context.disable();
+  });
+
+  it('should return the unbound channel when fallback is unbound', () => {
+    const channel = tracingChannel('no-storage', () => createMockSpan(), {
+      fallback: 'unbound',
+    });
+
+    expect(getContextStorageStrategy(channel)).toBe('none');
+    expect(channel.hasSubscribers).toBe(false);
+  });
+
+  it('should throw when no storage can be resolved and fallback is throw', () => {
+    expect(() =>
+      tracingChannel('no-storage-throw', () => createMockSpan(), {
+        fallback: 'throw',
+      }),
+    ).toThrow('Could not resolve an OpenTelemetry AsyncLocalStorage');
+  });
+
+  it('should return undefined for channels not created by tracingChannel', () => {
+    expect(
+      getContextStorageStrategy(nativeTracingChannel('not-wrapped')),
+    ).toBeUndefined();
+  });
+});
+
+describe('unbind', () => {
+  it('should unbind the OTel storage', () => {
+    const storage = new AsyncLocalStorage<Context>();
+    const transformStart = vi.fn(() => createMockSpan());
+    const channel = tracingChannel('unbind-storage', transformStart, {
+      storage,
+    });
+
+    channel.unbind();
+
+    expect(channel.hasSubscribers).toBe(false);
+    expect(channel.traceSync(() => storage.getStore(), {})).toBeUndefined();
+    expect(transformStart).not.toHaveBeenCalled();
+    expect(getContextStorageStrategy(channel)).toBeUndefined();
+  });
+
+  it('should remove internal subscribers', () => {
+    const channel = tracingChannel(
+      'unbind-subscribers',
+      () => createMockSpan(),
+      {
+        storage: new AsyncLocalStorage<Context>(),
+        autoEnd: true,
+      },
+    );
+
+    channel.unbind();
+
+    expect(channel.end.hasSubscribers).toBe(false);
+    expect(channel.asyncEnd.hasSubscribers).toBe(false);
+    expect(channel.error.hasSubscribers).toBe(false);
+  });
+
+  it('should keep subscribers added by the user', () => {
+    const channel = tracingChannel('unbind-user-subscribers', () =>
+      createMockSpan(),
+    );
+    const endHandler = vi.fn();
+    channel.subscribe({ end: endHandler } as any);
+
+    channel.unbind();
+    channel.traceSync(() => 'result', {});
+
+    expect(endHandler).toHaveBeenCalledTimes(1);
+    channel.unsubscribe({ end: endHandler } as any);
+  });
+
+  it('should be safe to call more than once', () => {
+    const channel = tracingChannel('unbind-twice', () => createMockSpan());
+
+    channel.unbind();
+    expect(() => channel.unbind()).not.toThrow();
+  });
+
+  it('should unbind unbound channels', () => {
+    const channel = tracingChannel('unbind-unbound', () => createMockSpan(), {
+      fallback: 'unbound',
+    });
+
+    expect(() => channel.unbind()).not.toThrow();
+  });
+
+  it('should unbind when disposed with a using declaration', () => {
+    const storage = new AsyncLocalStorage<Context>();
+    const transformStart = vi.fn(() => createMockSpan());
+
+    {
+      using channel = tracingChannel('unbind-using', transformStart, {
+        storage,
+      });
+      channel.traceSync(() => 'result', {});
+    }
+
+    nativeTracingChannel('unbind-using').traceSync(() => 'result', {});
+
+    expect(transformStart).toHaveBeenCalledTimes(1);
+  });
+
+  it('should allow binding the channel again', () => {
+    const storage = new AsyncLocalStorage<Context>();
+    const mockSpan = createMockSpan();
+
+    tracingChannel('unbind-rebind', () => createMockSpan(), {
+      storage,
+    }).unbind();
+    const channel = tracingChannel('unbind-rebind', () => mockSpan, {
+      storage,
+    });
+
+    expect(
+      channel.traceSync(() => trace.getSpan(storage.getStore()!), {}),
+    ).toBe(mockSpan);
+    channel.unbind();
+  });
+});
+
+describe('conflicting bindings', () => {
+  const tracing = useTestTracing();
+
+  it('should replace the existing binding by default', () => {
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    const first = vi.fn(() => tracing.tracer.startSpan('first'));
+    const second = vi.fn(() => tracing.tracer.startSpan('second'));
+
+    const firstChannel = tracingChannel('conflict-replace', first, {
+      autoEnd: true,
+      owner: 'package-a',
+    });
+    using channel = tracingChannel('conflict-replace', second, {
+      autoEnd: true,
+    });
+
+    channel.traceSync(() => 'result', {});
+
+    expect(first).not.toHaveBeenCalled();
+    expect(tracing.getFinishedSpans().map((span) => span.name)).toEqual([
+      'second',
+    ]);
+    expect(getContextStorageStrategy(firstChannel)).toBeUndefined();
+    expect(records).toMatchObject([
+      {
+        level: 'warn',
+        message:
+          'Tracing channel "conflict-replace" was bound by package-a, replacing it. Set "onConflict" to keep both bindings or fail instead',
+        channel: 'conflict-replace',
+        event: 'bind',
+      },
+    ]);
+  });
+
+  it('should replace bindings of the same owner or transform silently', () => {
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    const transformStart = () => tracing.tracer.startSpan('operation');
+
+    tracingChannel('conflict-same-owner', transformStart, {
+      owner: 'package-a',
+    });
+    using _sameOwner = tracingChannel(
+      'conflict-same-owner',
+      () => tracing.tracer.startSpan('operation'),
+      { owner: 'package-a' },
+    );
+    tracingChannel('conflict-same-transform', transformStart);
+    using _sameTransform = tracingChannel(
+      'conflict-same-transform',
+      transformStart,
+    );
+
+    expect(records).toEqual([]);
+  });
+
+  it('should reuse the existing binding', () => {
+    const first = vi.fn(() => tracing.tracer.startSpan('first'));
+    const second = vi.fn(() => tracing.tracer.startSpan('second'));
+
+    using firstChannel = tracingChannel('conflict-reuse', first, {
+      autoEnd: true,
+    });
+    const channel = tracingChannel('conflict-reuse', second, {
+      autoEnd: true,
+      onConflict: 'reuse',
+    });
+
+    expect(channel).not.toBe(firstChannel);
+
+    channel.traceSync(() => 'result', {});
+    channel.unbind();
+    firstChannel.traceSync(() => 'result', {});
+
+    expect(second).not.toHaveBeenCalled();
+    expect(tracing.getFinishedSpans().map((span) => span.name)).toEqual([
+      'first',
+      'first',
+    ]);
+    expect(getContextStorageStrategy(channel)).toBeUndefined();
+    expect(getContextStorageStrategy(firstChannel)).toBeDefined();
+  });
+
+  it('should throw when the policy is error', () => {
+    using _channel = tracingChannel(
+      'conflict-error',
+      () => tracing.tracer.startSpan('first'),
+      { owner: 'package-a' },
+    );
+
+    expect(() =>
+      tracingChannel(
+        'conflict-error',
+        () => tracing.tracer.startSpan('second'),
+        {
+          onConflict: 'error',
+        },
+      ),
+    ).toThrow('Tracing channel "conflict-error" is already bound by package-a');
+  });
+
+  it('should detect conflicts between names and instances', () => {
+    using _channel = tracingChannel('conflict-instance', () =>
+      tracing.tracer.startSpan('first'),
+    );
+
+    expect(() =>
+      tracingChannel(
+        nativeTracingChannel('conflict-instance'),
+        () => tracing.tracer.startSpan('second'),
+        { onConflict: 'error' },
+      ),
+    ).toThrow('already bound');
+  });
+
+  it('should compose transforms, nesting their spans', () => {
+    using _first = tracingChannel(
+      'conflict-compose',
+      () => tracing.tracer.startSpan('first'),
+      { autoEnd: true },
+    );
+    using second = tracingChannel(
+      'conflict-compose',
+      () => tracing.tracer.startSpan('second'),
+      { autoEnd: true, onConflict: 'compose' },
+    );
+
+    const data: any = {};
+    second.traceSync(() => tracing.tracer.startSpan('child').end(), data);
+
+    const spans = tracing.getFinishedSpans();
+    const byName = (name: string) => spans.find((span) => span.name === name)!;
+
+    expect(spans).toHaveLength(3);
+    expect(byName('second').parentSpanContext?.spanId).toBe(
+      byName('first').spanContext().spanId,
+    );
+    expect(byName('child').parentSpanContext?.spanId).toBe(
+      byName('second').spanContext().spanId,
+    );
+    expect(data.span.name).toBe('second');
+  });
+
+  it('should keep the binding until all composed transforms are unbound', () => {
+    const first = tracingChannel('conflict-compose-unbind', () =>
+      tracing.tracer.startSpan('first'),
+    );
+    const second = tracingChannel(
+      'conflict-compose-unbind',
+      () => tracing.tracer.startSpan('second'),
+      { autoEnd: true, onConflict: 'compose' },
+    );
+
+    first.unbind();
+    second.traceSync(() => 'result', {});
+    expect(tracing.getFinishedSpans().map((span) => span.name)).toEqual([
+      'second',
+    ]);
+
+    second.unbind();
+    expect(second.hasSubscribers).toBe(false);
+  });
+
+  it('should unbind only the transform of each handle of an instance', () => {
+    const nativeChannel = nativeTracingChannel('conflict-compose-instance');
+    const a = tracingChannel(
+      nativeChannel,
+      () => tracing.tracer.startSpan('a'),
+      {
+        autoEnd: true,
+      },
+    );
+    const b = tracingChannel(
+      nativeChannel,
+      () => tracing.tracer.startSpan('b'),
+      {
+        autoEnd: true,
+        onConflict: 'compose',
+      },
+    );
+
+    a.unbind();
+    nativeChannel.traceSync(() => 'result', {});
+    expect(tracing.getFinishedSpans().map((span) => span.name)).toEqual(['b']);
+
+    b.unbind();
+    expect(nativeChannel.hasSubscribers).toBe(false);
+  });
+
+  it('should keep the live binding when a replaced handle of a contract is unbound', () => {
+    const contract = defineTracingChannel('conflict-contract');
+    const first = tracingChannel(
+      contract,
+      () => tracing.tracer.startSpan('first'),
+      { owner: 'my-lib' },
+    );
+    using second = tracingChannel(
+      contract,
+      () => tracing.tracer.startSpan('second'),
+      { autoEnd: true, owner: 'my-lib' },
+    );
+
+    first.unbind();
+    contract.traceSync(() => 'result', {});
+
+    expect(
+      listChannels().some((info) => info.name === 'conflict-contract'),
+    ).toBe(true);
+    expect(getContextStorageStrategy(second)).toBeDefined();
+    expect(tracing.getFinishedSpans().map((span) => span.name)).toEqual([
+      'second',
+    ]);
+  });
+});
+
+describe('skipping span creation', () => {
+  const tracing = useTestTracing();
+
+  it('should skip operations rejected by shouldTrace', () => {
+    const transformStart = vi.fn(() => tracing.tracer.startSpan('operation'));
+    using channel = tracingChannel<{ path: string }>(
+      'skip-should-trace',
+      transformStart,
+      { autoEnd: true, shouldTrace: (data) => data.path !== '/health' },
+    );
+
+    channel.traceSync(() => 'result', { path: '/health' });
+    channel.traceSync(() => 'result', { path: '/users' });
+
+    expect(transformStart).toHaveBeenCalledTimes(1);
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should pass the parent context through when skipped', () => {
+    using channel = tracingChannel(
+      'skip-parent-context',
+      () => tracing.tracer.startSpan('operation'),
+      { shouldTrace: () => false },
+    );
+
+    const parent = tracing.tracer.startSpan('parent');
+    const data: any = {};
+    const activeSpan = context.with(
+      trace.setSpan(context.active(), parent),
+      () => channel.traceSync(() => trace.getActiveSpan(), data),
+    );
+    parent.end();
+
+    expect(activeSpan).toBe(parent);
+    expect(data.span).toBeUndefined();
+  });
+
+  it('should pass the data and parent context to the sampler', () => {
+    const sampler = vi.fn(() => false);
+    using channel = tracingChannel(
+      'skip-sampler',
+      () => tracing.tracer.startSpan('operation'),
+      { sampler },
+    );
+
+    const parent = tracing.tracer.startSpan('parent');
+    const data = { id: 1 };
+    context.with(trace.setSpan(context.active(), parent), () =>
+      channel.traceSync(() => 'result', data),
+    );
+    parent.end();
+
+    expect(sampler).toHaveBeenCalledTimes(1);
+    const [sampledData, parentContext] = sampler.mock.calls[0] as any[];
+    expect(sampledData).toBe(data);
+    expect(trace.getSpan(parentContext)).toBe(parent);
+  });
+
+  it('should create spans accepted by the sampler', () => {
+    using channel = tracingChannel(
+      'skip-sampler-accepted',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, sampler: () => true },
+    );
+
+    channel.traceSync(() => 'result', {});
+
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should only create spans when subscribers exist with requireSubscribers', () => {
+    const transformStart = vi.fn(() => tracing.tracer.startSpan('operation'));
+    using channel = tracingChannel('skip-no-subscribers', transformStart, {
+      requireSubscribers: true,
+    });
+
+    channel.traceSync(() => 'result', {});
+    expect(transformStart).not.toHaveBeenCalled();
+
+    const subscribers = { end: (data: any) => data.span?.end() } as any;
+    channel.subscribe(subscribers);
+    channel.traceSync(() => 'result', {});
+    channel.unsubscribe(subscribers);
+
+    expect(transformStart).toHaveBeenCalledTimes(1);
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should count autoEnd as a subscriber with requireSubscribers', () => {
+    using channel = tracingChannel(
+      'skip-auto-end-subscribers',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, requireSubscribers: true },
+    );
+
+    channel.traceSync(() => 'result', {});
+
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should log and fall back when an option throws', () => {
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    const fail = () => {
+      throw new Error('broken option');
+    };
+    using channel = tracingChannel(
+      'skip-option-throw',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        autoEnd: true,
+        carrier: fail,
+        links: fail,
+        shouldTrace: fail,
+        sampler: fail,
+      },
+    );
+
+    expect(channel.traceSync(() => 'result', {})).toBe('result');
+
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+    expect(records.map((record) => record.message)).toEqual([
+      '"carrier" threw an error',
+      '"shouldTrace" threw an error',
+      '"sampler" threw an error',
+      '"links" threw an error',
+    ]);
+    expect(records[0]).toMatchObject({
+      level: 'error',
+      channel: 'skip-option-throw',
+      event: 'start',
+      error: new Error('broken option'),
+    });
+  });
+
+  it('should not count internal subscribers with requireSubscribers', () => {
+    const transformStart = vi.fn(() => tracing.tracer.startSpan('operation'));
+    const internalOptions = [
+      { metrics: true },
+      { phases: 'events' },
+      { transformEnd: () => {} },
+      { watchdog: { timeout: 1000 } },
+    ] as const;
+
+    for (const options of internalOptions) {
+      using channel = tracingChannel(
+        'skip-internal-subscribers',
+        transformStart,
+        { ...options, requireSubscribers: true },
+      );
+
+      channel.traceSync(() => 'result', {});
+    }
+
+    expect(transformStart).not.toHaveBeenCalled();
+    expect(
+      listChannels().find((info) => info.name === 'skip-internal-subscribers'),
+    ).toBeUndefined();
+  });
+
+  it('should still create spans of composed transforms after a skipped one', () => {
+    using _first = tracingChannel(
+      'skip-composed',
+      () => tracing.tracer.startSpan('first'),
+      { shouldTrace: () => false },
+    );
+    using second = tracingChannel(
+      'skip-composed',
+      () => tracing.tracer.startSpan('second'),
+      { autoEnd: true, onConflict: 'compose' },
+    );
+
+    second.traceSync(() => 'result', {});
+
+    expect(tracing.getFinishedSpans().map((span) => span.name)).toEqual([
+      'second',
+    ]);
+  });
+});
+
+describe('transform results', () => {
+  const tracing = useTestTracing();
+
+  function getBaggageValue(key: string): string | undefined {
+    return propagation.getBaggage(context.active())?.getEntry(key)?.value;
+  }
+
+  it('should propagate the trace ID of non-recording spans', () => {
+    const spanContext = {
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: 'b7ad6b7169203331',
+      traceFlags: TraceFlags.NONE,
+    };
+    using channel = tracingChannel('result-non-recording', () =>
+      trace.wrapSpanContext(spanContext),
+    );
+
+    const data: any = {};
+    const child = channel.traceSync(
+      () => tracing.tracer.startSpan('child'),
+      data,
+    );
+    child.end();
+
+    expect(data.span?.spanContext()).toEqual(spanContext);
+    // Sampled out like its parent, but part of the same trace
+    expect(child.isRecording()).toBe(false);
+    expect(child.spanContext().traceId).toBe(spanContext.traceId);
+  });
+
+  it('should use a returned context as is', () => {
+    using channel = tracingChannel(
+      'result-context',
+      () => {
+        const span = tracing.tracer.startSpan('operation');
+        return propagation.setBaggage(
+          trace.setSpan(context.active(), span),
+          propagation.createBaggage({ tenant: { value: 'acme' } }),
+        );
+      },
+      { autoEnd: true },
+    );
+
+    const data: any = {};
+    const tenant = channel.traceSync(() => getBaggageValue('tenant'), data);
+
+    expect(tenant).toBe('acme');
+    expect(data.span).toBeDefined();
+    expect(tracing.getFinishedSpans().map((span) => span.name)).toEqual([
+      'operation',
+    ]);
+  });
+
+  it('should not set the parent span of a returned context on data.span', () => {
+    using channel = tracingChannel('result-context-parent', () =>
+      propagation.setBaggage(
+        context.active(),
+        propagation.createBaggage({ tenant: { value: 'acme' } }),
+      ),
+    );
+
+    const parent = tracing.tracer.startSpan('parent');
+    const data: any = {};
+    context.with(trace.setSpan(context.active(), parent), () =>
+      channel.traceSync(() => 'result', data),
+    );
+    parent.end();
+
+    expect(data.span).toBeUndefined();
+  });
+
+  it('should set the span and baggage of a returned object', () => {
+    using channel = tracingChannel(
+      'result-object',
+      () => ({
+        span: tracing.tracer.startSpan('operation'),
+        baggage: propagation.createBaggage({ tenant: { value: 'acme' } }),
+      }),
+      { autoEnd: true },
+    );
+
+    const data: any = {};
+    const [tenant, activeSpan] = channel.traceSync(
+      () => [getBaggageValue('tenant'), trace.getActiveSpan()],
+      data,
+    );
+
+    expect(tenant).toBe('acme');
+    expect(activeSpan).toBe(data.span);
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('should keep the parent span when only baggage is returned', () => {
+    using channel = tracingChannel('result-baggage', () => ({
+      baggage: propagation.createBaggage({ tenant: { value: 'acme' } }),
+    }));
+
+    const parent = tracing.tracer.startSpan('parent');
+    const [tenant, activeSpan] = context.with(
+      trace.setSpan(context.active(), parent),
+      () =>
+        channel.traceSync(
+          () => [getBaggageValue('tenant'), trace.getActiveSpan()],
+          {},
+        ),
+    );
+    parent.end();
+
+    expect(tenant).toBe('acme');
+    expect(activeSpan).toBe(parent);
+  });
+
+  it('should extend a returned context with the returned span', () => {
+    const key = Symbol('key');
+    using channel = tracingChannel('result-object-context', () => ({
+      context: context.active().setValue(key, 'value'),
+      span: tracing.tracer.startSpan('operation'),
+    }));
+
+    const [value, activeSpan] = channel.traceSync(
+      () => [context.active().getValue(key), trace.getActiveSpan()],
+      {},
+    );
+
+    expect(value).toBe('value');
+    expect((activeSpan as any)?.name).toBe('operation');
+  });
+
+  it('should pass the parent context through when undefined is returned', () => {
+    const consoleWarnSpy = vi
+      .spyOn(console, 'warn')
+      .mockImplementation(() => {});
+    setDebugFlag(true);
+    using channel = tracingChannel('result-undefined', () => undefined);
+
+    const parent = tracing.tracer.startSpan('parent');
+    const data: any = {};
+    const activeSpan = context.with(
+      trace.setSpan(context.active(), parent),
+      () => channel.traceSync(() => trace.getActiveSpan(), data),
+    );
+    parent.end();
+    setDebugFlag(false);
+
+    expect(activeSpan).toBe(parent);
+    expect(data.span).toBeUndefined();
+    expect(
+      consoleWarnSpy.mock.calls.some((call) =>
+        call.some((arg) => typeof arg === 'string' && arg.includes('non-span')),
+      ),
+    ).toBe(false);
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should expose the resulting context on data.otelContext', () => {
+    using channel = tracingChannel('result-data-context', () =>
+      tracing.tracer.startSpan('operation'),
+    );
+
+    const data: any = {};
+    const activeContext = channel.traceSync(() => context.active(), data);
+
+    expect(data.otelContext).toBe(activeContext);
+    expect(trace.getSpan(data.otelContext)).toBe(data.span);
+  });
+});
+
+describe('error classification', () => {
+  const tracing = useTestTracing();
+
+  function createAbortError(): Error {
+    const controller = new AbortController();
+    controller.abort();
+    return controller.signal.reason as Error;
+  }
+
+  it('should not fail spans of aborted operations by default', async () => {
+    using channel = tracingChannel(
+      'classify-abort',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true },
+    );
+
+    await expect(
+      channel.tracePromise(async () => {
+        throw createAbortError();
+      }, {}),
+    ).rejects.toThrow();
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+    expect(span?.events).toHaveLength(0);
+  });
+
+  it('should set error.type from the error code by default', () => {
+    using channel = tracingChannel(
+      'classify-code',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true },
+    );
+
+    expect(() =>
+      channel.traceSync(() => {
+        throw Object.assign(new Error('Connection refused'), {
+          code: 'ECONNREFUSED',
+        });
+      }, {}),
+    ).toThrow();
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'Connection refused',
+    });
+    expect(span?.attributes['error.type']).toBe('ECONNREFUSED');
+    expect(span?.events.map((event) => event.name)).toEqual(['exception']);
+  });
+
+  it('should apply the classifyError option', () => {
+    class NotFoundError extends Error {}
+    const classifyError = vi.fn((error: unknown) =>
+      error instanceof NotFoundError
+        ? {
+            status: SpanStatusCode.UNSET,
+            recordException: false,
+            attributes: { 'app.not_found': true },
+          }
+        : undefined,
+    );
+    using channel = tracingChannel<{ id: number }>(
+      'classify-option',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, classifyError },
+    );
+
+    const data = { id: 1 };
+    expect(() =>
+      channel.traceSync(() => {
+        throw new NotFoundError('Not found');
+      }, data),
+    ).toThrow();
+    expect(() =>
+      channel.traceSync(
+        () => {
+          throw new TypeError('Invalid');
+        },
+        { id: 2 },
+      ),
+    ).toThrow();
+
+    expect(classifyError).toHaveBeenCalledWith(expect.any(NotFoundError), data);
+    const [notFound, invalid] = tracing.getFinishedSpans();
+    expect(notFound?.status.code).toBe(SpanStatusCode.UNSET);
+    expect(notFound?.events).toHaveLength(0);
+    expect(notFound?.attributes['app.not_found']).toBe(true);
+    // Falls back to the default classification
+    expect(invalid?.status.code).toBe(SpanStatusCode.ERROR);
+    expect(invalid?.attributes['error.type']).toBe('TypeError');
+  });
+
+  it('should use the classified status description', () => {
+    using channel = tracingChannel(
+      'classify-message',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        autoEnd: true,
+        classifyError: () => ({ message: 'Validation failed' }),
+      },
+    );
+
+    expect(() =>
+      channel.traceSync(() => {
+        throw new Error('Invalid email');
+      }, {}),
+    ).toThrow();
+
+    expect(tracing.getFinishedSpans()[0]?.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'Validation failed',
+    });
+  });
+
+  it('should record errors from manual handlers with recordSpanError', () => {
+    using channel = tracingChannel('classify-manual', () =>
+      tracing.tracer.startSpan('operation'),
+    );
+    const subscribers = {
+      error: (data: any) =>
+        recordSpanError(data.span, data.error, {
+          data,
+          classifyError: () => ({ status: SpanStatusCode.OK }),
+        }),
+      end: (data: any) => data.span?.end(),
+    } as any;
+    channel.subscribe(subscribers);
+
+    expect(() =>
+      channel.traceSync(() => {
+        throw new Error('Expected');
+      }, {}),
+    ).toThrow();
+    channel.unsubscribe(subscribers);
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.status.code).toBe(SpanStatusCode.OK);
+    expect(span?.events.map((event) => event.name)).toEqual(['exception']);
+  });
+
+  it('should fall back to the default classification when classifyError throws', () => {
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    using channel = tracingChannel(
+      'classify-throw',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        autoEnd: true,
+        classifyError: () => {
+          throw new Error('classifier failed');
+        },
+      },
+    );
+
+    expect(() =>
+      channel.traceSync(() => {
+        throw new TypeError('Validation failed');
+      }, {}),
+    ).toThrow('Validation failed');
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'Validation failed',
+    });
+    expect(span?.attributes).toEqual({ 'error.type': 'TypeError' });
+    expect(records).toMatchObject([
+      {
+        level: 'error',
+        message: '"classifyError" threw an error',
+        channel: 'classify-throw',
+        event: 'error',
+      },
+    ]);
+  });
+
+  it('should classify DOMExceptions by name', () => {
+    expect(defaultClassifyError(createAbortError())).toEqual({
+      status: SpanStatusCode.UNSET,
+      recordException: false,
+    });
+    expect(
+      defaultClassifyError(new DOMException('Timed out', 'TimeoutError')),
+    ).toEqual({
+      status: SpanStatusCode.ERROR,
+      attributes: { 'error.type': 'TimeoutError' },
+    });
+    expect(defaultClassifyError('failed')).toEqual({
+      status: SpanStatusCode.ERROR,
+      attributes: { 'error.type': '_OTHER' },
+    });
+  });
+});
+
+describe('transformEnd', () => {
+  const tracing = useTestTracing();
+
+  it('should enrich spans from the result of sync operations', () => {
+    const transformEnd = vi.fn((data: any, span: Span) => {
+      span.setAttribute('db.response.returned_rows', data.result.length);
+      span.updateName(`SELECT ${data.table}`);
+    });
+    using channel = tracingChannel(
+      'transform-end-sync',
+      () => tracing.tracer.startSpan('query'),
+      { autoEnd: true, transformEnd },
+    );
+
+    channel.traceSync(() => ['a', 'b'], { table: 'users' });
+
+    const [span] = tracing.getFinishedSpans();
+    expect(transformEnd).toHaveBeenCalledOnce();
+    expect(span?.name).toBe('SELECT users');
+    expect(span?.attributes).toEqual({ 'db.response.returned_rows': 2 });
+  });
+
+  it('should run once when promises settle', async () => {
+    const transformEnd = vi.fn((data: any, span: Span) => {
+      span.setAttribute('cache.hit', data.result);
+    });
+    using channel = tracingChannel(
+      'transform-end-promise',
+      () => tracing.tracer.startSpan('get'),
+      { autoEnd: true, transformEnd },
+    );
+
+    await channel.tracePromise(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(transformEnd).not.toHaveBeenCalled();
+      return true;
+    }, {});
+
+    expect(transformEnd).toHaveBeenCalledOnce();
+    expect(tracing.getFinishedSpans()[0]?.attributes).toEqual({
+      'cache.hit': true,
+    });
+  });
+
+  it('should run once when callbacks are invoked', async () => {
+    const transformEnd = vi.fn((data: any, span: Span) => {
+      span.setAttribute('http.response.status_code', data.result);
+    });
+    using channel = tracingChannel(
+      'transform-end-callback',
+      () => tracing.tracer.startSpan('request'),
+      { autoEnd: true, transformEnd },
+    );
+
+    await new Promise<void>((resolve) => {
+      channel.traceCallback(
+        (cb: (err: unknown, status?: number) => void) => {
+          setTimeout(() => cb(null, 204), 1);
+        },
+        -1,
+        {},
+        undefined,
+        () => resolve(),
+      );
+    });
+
+    expect(transformEnd).toHaveBeenCalledOnce();
+    expect(tracing.getFinishedSpans()[0]?.attributes).toEqual({
+      'http.response.status_code': 204,
+    });
+  });
+
+  it('should see errors and override the status', async () => {
+    using channel = tracingChannel(
+      'transform-end-error',
+      () => tracing.tracer.startSpan('lookup'),
+      {
+        autoEnd: true,
+        transformEnd: (data, span) => {
+          if ((data.error as Error).message === 'not found') {
+            span.setStatus({ code: SpanStatusCode.OK });
+          }
+        },
+      },
+    );
+
+    await expect(
+      channel.tracePromise(() => Promise.reject(new Error('not found')), {}),
+    ).rejects.toThrow('not found');
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.status.code).toBe(SpanStatusCode.OK);
+    expect(span?.events[0]?.name).toBe('exception');
+  });
+
+  it('should isolate errors thrown by the hook', () => {
+    const records: LogRecord[] = [];
+    setLogger((record) => records.push(record));
+    using channel = tracingChannel(
+      'transform-end-throw',
+      () => tracing.tracer.startSpan('operation'),
+      {
+        autoEnd: true,
+        transformEnd: () => {
+          throw new Error('broken hook');
+        },
+      },
+    );
+
+    const data: any = {};
+    expect(channel.traceSync(() => 'result', data)).toBe('result');
+
+    const { traceId, spanId } = data.span.spanContext();
+    expect(tracing.getFinishedSpans()).toHaveLength(1);
+    expect(records).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        channel: 'transform-end-throw',
+        event: 'transformEnd',
+        traceId,
+        spanId,
+        error: new Error('broken hook'),
+      }),
+    ]);
+  });
+
+  it('should run without autoEnd and skip operations without a span', () => {
+    const transformEnd = vi.fn();
+    using channel = tracingChannel(
+      'transform-end-manual',
+      () => tracing.tracer.startSpan('operation'),
+      { transformEnd, shouldTrace: (data: any) => !data.skip },
+    );
+
+    const data: any = {};
+    channel.traceSync(() => 'result', data);
+    channel.traceSync(() => 'result', { skip: true });
+
+    expect(transformEnd).toHaveBeenCalledExactlyOnceWith(data, data.span);
+    expect(data.span.isRecording()).toBe(true);
+    data.span.end();
+  });
+});
+
+describe('late binding', () => {
+  afterEach(() => {
+    context.disable();
+  });
+
+  it('should bind channels created before the context manager is registered', () => {
+    const mockSpan = createMockSpan();
+    const transformStart = vi.fn(() => mockSpan);
+    const channel = tracingChannel('late-binding', transformStart);
+
+    expect(getContextStorageStrategy(channel)).toBe('none');
+    channel.traceSync(() => 'result', {});
+    expect(transformStart).not.toHaveBeenCalled();
+
+    context.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable(),
+    );
+
+    expect(getContextStorageStrategy(channel)).toBe('global-context-manager');
+    const activeSpan = channel.traceSync(() => trace.getActiveSpan(), {});
+    expect(transformStart).toHaveBeenCalledTimes(1);
+    expect(activeSpan).toBe(mockSpan);
+  });
+
+  it('should rebind when the global context manager is replaced', () => {
+    context.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable(),
+    );
+
+    const mockSpan = createMockSpan();
+    const channel = tracingChannel('late-binding-replaced', () => mockSpan);
+
+    context.disable();
+    const replacement = new AsyncLocalStorageContextManager().enable();
+    context.setGlobalContextManager(replacement);
+
+    const activeSpan = channel.traceSync(
+      () => trace.getSpan(replacement.active()),
+      {},
+    );
+    expect(activeSpan).toBe(mockSpan);
+  });
+
+  it('should stop creating spans when the context manager is removed', () => {
+    context.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable(),
+    );
+
+    const transformStart = vi.fn(() => createMockSpan());
+    const channel = tracingChannel('late-binding-removed', transformStart);
+
+    context.disable();
+
+    expect(getContextStorageStrategy(channel)).toBe('none');
+    expect(channel.traceSync(() => 'result', {})).toBe('result');
+    expect(transformStart).not.toHaveBeenCalled();
+  });
+
+  it('should parent spans across operations once the SDK is registered', async () => {
+    const channel = tracingChannel(
+      'late-binding-nested',
+      () => trace.getTracer('test').startSpan('parent'),
+      { autoEnd: true },
+    );
+
+    const tracing = setupTestTracing();
+
+    await channel.tracePromise(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      tracing.tracer.startSpan('child').end();
+    }, {});
+    const [child, parent] = tracing.getFinishedSpans();
+    await tracing.teardown();
+
+    expect(child.name).toBe('child');
+    expect(child.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+  });
+});
+
 // Helper function to create a mock span
 function createMockSpan(_name: string = 'test-span'): Span {
   return {
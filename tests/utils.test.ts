@@ -7,8 +7,12 @@ import {
   afterEach,
   MockInstance,
 } from 'vitest';
-import { isSpan, setDebugFlag, debugLog } from '../src/utils';
-import { INVALID_TRACEID, INVALID_SPANID } from '@opentelemetry/api';
+import { isContext, isSpan, setDebugFlag, debugLog } from '../src/utils';
+import {
+  INVALID_TRACEID,
+  INVALID_SPANID,
+  ROOT_CONTEXT,
+} from '@opentelemetry/api';
 
 describe('isSpan', () => {
   it('should return true for valid span objects with valid trace and span IDs', () => {
@@ -103,6 +107,19 @@ describe('isSpan', () => {
   });
 });
 
+describe('isContext', () => {
+  it('should return true for contexts', () => {
+    expect(isContext(ROOT_CONTEXT)).toBe(true);
+    expect(isContext(ROOT_CONTEXT.setValue(Symbol('key'), 'value'))).toBe(true);
+  });
+
+  it('should return false for non-contexts', () => {
+    expect(isContext(undefined)).toBe(false);
+    expect(isContext({})).toBe(false);
+    expect(isContext({ getValue: () => undefined })).toBe(false);
+  });
+});
+
 describe('debugLog', () => {
   let consoleLogSpy: MockInstance<typeof console.log>;
 
@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { getOpenSpans, tracingChannel } from '../src';
+import { useTestTracing } from './helpers';
+
+describe('watchdog', () => {
+  const tracing = useTestTracing();
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should warn about spans still open after the timeout', () => {
+    vi.useFakeTimers();
+    const emitWarning = vi
+      .spyOn(process, 'emitWarning')
+      .mockImplementation(() => {});
+    using channel = tracingChannel(
+      'watchdog-warn',
+      () => tracing.tracer.startSpan('hanging'),
+      { watchdog: { timeout: 100 } },
+    );
+
+    const data: any = {};
+    channel.traceSync(() => 'result', data);
+    vi.advanceTimersByTime(100);
+
+    expect(emitWarning).toHaveBeenCalledWith(
+      'Span "hanging" of tracing channel "watchdog-warn" was not ended, it is still open after 100ms',
+      { code: 'OTEL_TRACING_CHANNEL_OPEN_SPAN' },
+    );
+    expect(data.span.isRecording()).toBe(true);
+    data.span.end();
+  });
+
+  it('should end spans still open after the timeout with the end action', () => {
+    vi.useFakeTimers();
+    const emitWarning = vi.spyOn(process, 'emitWarning');
+    using channel = tracingChannel(
+      'watchdog-end',
+      () => tracing.tracer.startSpan('hanging'),
+      { watchdog: { timeout: 100, action: 'end' } },
+    );
+
+    void channel.tracePromise(() => new Promise(() => {}), {});
+    vi.advanceTimersByTime(100);
+
+    const [span] = tracing.getFinishedSpans();
+    expect(span?.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'timeout',
+    });
+    expect(emitWarning).not.toHaveBeenCalled();
+  });
+
+  it('should not flag spans ended in time', () => {
+    vi.useFakeTimers();
+    const emitWarning = vi.spyOn(process, 'emitWarning');
+    using channel = tracingChannel(
+      'watchdog-ended',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, watchdog: { timeout: 100 } },
+    );
+
+    channel.traceSync(() => 'result', {});
+    vi.advanceTimersByTime(100);
+
+    expect(emitWarning).not.toHaveBeenCalled();
+  });
+
+  it('should forget spans ended with their operation', async () => {
+    vi.useFakeTimers();
+    using channel = tracingChannel(
+      'watchdog-forget',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true, watchdog: { timeout: 60_000 } },
+    );
+
+    channel.traceSync(() => 'result', {});
+    await channel.tracePromise(async () => 'result', {});
+
+    // Runs the zero-delay timers of the operations, leaving the ones of the watchdog
+    vi.advanceTimersByTime(0);
+
+    expect(vi.getTimerCount()).toBe(0);
+    expect(getOpenSpans()).toEqual([]);
+  });
+
+  it('should list open spans', () => {
+    using channel = tracingChannel(
+      'watchdog-open',
+      () => tracing.tracer.startSpan('operation'),
+      { watchdog: { timeout: 60_000 } },
+    );
+
+    const first: any = {};
+    const second: any = {};
+    channel.traceSync(() => 'result', first);
+    channel.traceSync(() => 'result', second);
+    first.span.end();
+
+    expect(getOpenSpans()).toEqual([
+      {
+        channel: 'watchdog-open',
+        span: second.span,
+        startTime: expect.any(Number),
+      },
+    ]);
+
+    second.span.end();
+    expect(getOpenSpans()).toEqual([]);
+  });
+
+  it.runIf(typeof globalThis.gc === 'function')(
+    'should report spans whose channel data was garbage-collected',
+    async () => {
+      const emitWarning = vi
+        .spyOn(process, 'emitWarning')
+        .mockImplementation(() => {});
+      using channel = tracingChannel(
+        'watchdog-gc',
+        () => tracing.tracer.startSpan('dropped'),
+        { watchdog: { timeout: 60_000 } },
+      );
+
+      // Keep nothing referencing the data
+      (() => channel.traceSync(() => 'result', {}))();
+
+      for (
+        let attempt = 0;
+        attempt < 10 && !emitWarning.mock.calls.length;
+        attempt++
+      ) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        globalThis.gc!();
+      }
+
+      expect(emitWarning).toHaveBeenCalledWith(
+        'Span "dropped" of tracing channel "watchdog-gc" was not ended, its channel data was garbage-collected',
+        { code: 'OTEL_TRACING_CHANNEL_OPEN_SPAN' },
+      );
+      expect(getOpenSpans()).toEqual([]);
+    },
+  );
+});
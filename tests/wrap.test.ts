@@ -0,0 +1,332 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import { traced, tracingChannel, wrap } from '../src';
+import { useTestTracing } from './helpers';
+
+describe('wrap', () => {
+  const tracing = useTestTracing();
+
+  function createChannel(name: string) {
+    return tracingChannel<{ key: string }>(
+      name,
+      (data) => tracing.tracer.startSpan(`get ${data.key}`),
+      { autoEnd: true },
+    );
+  }
+
+  it('should trace sync functions', () => {
+    using channel = createChannel('wrap-sync');
+    const get = wrap(
+      channel,
+      (key: string) => {
+        tracing.tracer.startSpan('inner').end();
+        return key.length;
+      },
+      ([key]) => ({ key }),
+    );
+
+    expect(get('users')).toBe(5);
+    tracing.expectSpanTree({
+      name: 'get users',
+      children: [{ name: 'inner' }],
+    });
+  });
+
+  it('should trace async functions', async () => {
+    using channel = createChannel('wrap-async');
+    const get = wrap(
+      channel,
+      async (key: string) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        tracing.tracer.startSpan('inner').end();
+        return key;
+      },
+      ([key]) => ({ key }),
+    );
+
+    await expect(get('users')).resolves.toBe('users');
+    tracing.expectSpanTree({
+      name: 'get users',
+      children: [{ name: 'inner' }],
+    });
+  });
+
+  it('should wait for promises returned by sync functions', async () => {
+    using channel = createChannel('wrap-thenable');
+    const ended = vi.fn();
+    const subscribers = { end: ended } as any;
+    channel.subscribe(subscribers);
+
+    let resolveQuery: (value: string) => void = () => {};
+    const get = wrap(
+      channel,
+      (_key: string) =>
+        new Promise<string>((resolve) => {
+          resolveQuery = resolve;
+        }),
+      ([key]) => ({ key }),
+    );
+
+    const result = get('users');
+    expect(ended).toHaveBeenCalledTimes(1);
+    expect(tracing.getFinishedSpans()).toHaveLength(0);
+
+    resolveQuery('row');
+    await expect(result).resolves.toBe('row');
+    channel.unsubscribe(subscribers);
+
+    tracing.expectSpanTree({ name: 'get users' });
+  });
+
+  it('should record rejected promises', async () => {
+    using channel = createChannel('wrap-thenable-rejected');
+    const get = wrap(
+      channel,
+      (_key: string) => Promise.reject(new Error('Not found')),
+      ([key]) => ({ key }),
+    );
+
+    await expect(get('users')).rejects.toThrow('Not found');
+    tracing.expectSpanTree({ name: 'get users', status: SpanStatusCode.ERROR });
+  });
+
+  it('should return other thenables untouched and trace them as sync results', () => {
+    using channel = createChannel('wrap-lazy-thenable');
+    const then = vi.fn();
+    // A lazy query builder, running the query once awaited
+    // eslint-disable-next-line unicorn/no-thenable
+    const query = { then, where: () => query };
+    const get = wrap(
+      channel,
+      (_key: string) => query,
+      ([key]) => ({ key }),
+    );
+
+    expect(get('users')).toBe(query);
+    expect(then).not.toHaveBeenCalled();
+    tracing.expectSpanTree({ name: 'get users' });
+  });
+
+  it('should record sync errors', () => {
+    using channel = createChannel('wrap-sync-error');
+    const get = wrap(
+      channel,
+      (_key: string): number => {
+        throw new Error('Failed');
+      },
+      ([key]) => ({ key }),
+    );
+
+    expect(() => get('users')).toThrow('Failed');
+    tracing.expectSpanTree({ name: 'get users', status: SpanStatusCode.ERROR });
+  });
+
+  it('should detect trailing callbacks', async () => {
+    using channel = createChannel('wrap-callback');
+    const get = wrap(
+      channel,
+      (
+        key: string,
+        callback: (error: Error | null, value?: string) => void,
+      ) => {
+        setTimeout(() => callback(null, key), 1);
+      },
+      ([key]) => ({ key }),
+    );
+
+    const value = await new Promise((resolve) =>
+      get('users', (_, value) => {
+        tracing.tracer.startSpan('callback').end();
+        resolve(value);
+      }),
+    );
+
+    expect(value).toBe('users');
+    tracing.expectSpanTree({
+      name: 'get users',
+      children: [{ name: 'callback' }],
+    });
+  });
+
+  it('should trace the callback at callbackPosition', async () => {
+    using channel = createChannel('wrap-callback-position');
+    const get = wrap(
+      channel,
+      (
+        callback: (error: Error | null, value?: string) => void,
+        key: string,
+      ) => {
+        setTimeout(() => callback(new Error(`${key} not found`)), 1);
+      },
+      ([, key]) => ({ key }),
+      { callbackPosition: 0 },
+    );
+
+    const error = await new Promise((resolve) =>
+      get((error) => resolve(error), 'users'),
+    );
+
+    expect(error).toEqual(new Error('users not found'));
+    tracing.expectSpanTree({ name: 'get users', status: SpanStatusCode.ERROR });
+  });
+
+  it('should not treat trailing functions as callbacks when opted out', () => {
+    using channel = createChannel('wrap-callback-opt-out');
+    const withLock = wrap(
+      channel,
+      (_key: string, run: () => string) => run(),
+      ([key]) => ({ key }),
+      { callbackPosition: false },
+    );
+
+    expect(withLock('users', () => 'done')).toBe('done');
+    tracing.expectSpanTree({ name: 'get users', status: SpanStatusCode.UNSET });
+  });
+
+  it('should not treat trailing async functions as callbacks', async () => {
+    using channel = createChannel('wrap-trailing-function');
+    const transaction = wrap(
+      channel,
+      (key: string, run: (tx: { key: string }) => Promise<string>) =>
+        run({ key }),
+      ([key]) => ({ key }),
+    );
+
+    const result = await transaction('users', async () => 'done');
+
+    expect(result).toBe('done');
+    tracing.expectSpanTree({ name: 'get users', status: SpanStatusCode.UNSET });
+  });
+
+  it('should call the function directly while nothing is bound', () => {
+    const mapData = vi.fn(() => ({ key: 'users' }));
+    const channel = createChannel('wrap-unbound');
+    channel.unbind();
+    const get = wrap(channel, (key: string) => key, mapData);
+
+    expect(get('users')).toBe('users');
+    expect(mapData).not.toHaveBeenCalled();
+    expect(tracing.getFinishedSpans()).toEqual([]);
+  });
+
+  it('should pass the arguments and receiver to the function and the mapper', async () => {
+    using channel = createChannel('wrap-this');
+    async function get(this: { prefix: string }, key: string) {
+      return `${this.prefix}${key}`;
+    }
+    const mapData = vi.fn((args: [string], thisArg: { prefix: string }) => ({
+      key: `${thisArg.prefix}${args[0]}`,
+    }));
+    const client = { prefix: 'cache:', get: wrap(channel, get, mapData) };
+
+    await expect(client.get('users')).resolves.toBe('cache:users');
+    expect(mapData).toHaveBeenCalledWith(['users'], client);
+    tracing.expectSpanTree({ name: 'get cache:users' });
+  });
+
+  it('should keep the function name and length', () => {
+    using channel = createChannel('wrap-name');
+    function getUser(_id: string, _options?: object) {}
+
+    const wrapped = wrap(channel, getUser, ([key]) => ({ key }));
+
+    expect(wrapped.name).toBe('getUser');
+    expect(wrapped.length).toBe(2);
+  });
+
+  it('should keep the span active inside the function', () => {
+    using channel = createChannel('wrap-active');
+    const get = wrap(
+      channel,
+      (_key: string) => trace.getActiveSpan(),
+      ([key]) => ({ key }),
+    );
+
+    const data = get('users');
+
+    expect(data).toBeDefined();
+    expect(tracing.getFinishedSpans()[0]?.spanContext()).toEqual(
+      data?.spanContext(),
+    );
+  });
+});
+
+describe('traced', () => {
+  const tracing = useTestTracing();
+
+  it('should trace decorated sync and async methods', async () => {
+    using channel = tracingChannel<{ id: string; table: string }>(
+      'traced-methods',
+      (data) => tracing.tracer.startSpan(`${data.table} ${data.id}`),
+      { autoEnd: true },
+    );
+
+    class UserService {
+      table = 'users';
+
+      @traced(channel, ([id]: [string], self: UserService) => ({
+        id,
+        table: self.table,
+      }))
+      async getUser(id: string) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return this.formatUser(id);
+      }
+
+      @traced(channel, ([id]: [string], self: UserService) => ({
+        id: `format ${id}`,
+        table: self.table,
+      }))
+      formatUser(id: string) {
+        tracing.tracer.startSpan('inner').end();
+        return `user ${id}`;
+      }
+    }
+
+    await expect(new UserService().getUser('1')).resolves.toBe('user 1');
+
+    tracing.expectSpanTree({
+      name: 'users 1',
+      children: [{ name: 'users format 1', children: [{ name: 'inner' }] }],
+    });
+  });
+
+  it('should keep the span active inside the method body', () => {
+    using channel = tracingChannel(
+      'traced-active',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true },
+    );
+
+    class Service {
+      @traced(channel, () => ({}))
+      run() {
+        return trace.getActiveSpan();
+      }
+    }
+
+    const span = new Service().run();
+
+    expect(span?.spanContext()).toEqual(
+      tracing.getFinishedSpans()[0]?.spanContext(),
+    );
+  });
+
+  it('should record errors thrown by decorated methods', async () => {
+    using channel = tracingChannel(
+      'traced-error',
+      () => tracing.tracer.startSpan('operation'),
+      { autoEnd: true },
+    );
+
+    class Service {
+      @traced(channel, () => ({}))
+      async run(): Promise<void> {
+        throw new Error('Failed');
+      }
+    }
+
+    await expect(new Service().run()).rejects.toThrow('Failed');
+    tracing.expectSpanTree({ name: 'operation', status: SpanStatusCode.ERROR });
+  });
+});
@@ -1,6 +1,11 @@
 import { defineConfig } from 'tsdown'
 
 export default defineConfig({
-  external: ['@opentelemetry/api'],
+  entry: ['src/index.ts', 'src/testing.ts', 'src/contract.ts'],
+  external: [
+    '@opentelemetry/api',
+    '@opentelemetry/context-async-hooks',
+    '@opentelemetry/sdk-trace-base',
+  ],
   format: ['cjs', 'esm'],
 })
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Lets the watchdog tests collect the channel data of leaked spans with `gc()`
+    execArgv: ['--expose-gc'],
+    // Type-checks the `*.test-d.ts` files with `tsc`, alongside the runtime tests
+    typecheck: {
+      enabled: true,
+      tsconfig: './tsconfig.test.json',
+    },
+  },
+});